@@ -0,0 +1,163 @@
+/**
+ * Review change tracking across runs.
+ *
+ * With trackChanges on, each place keeps a snapshot record in a named
+ * KeyValueStore: every review's stars, text and owner response, keyed by
+ * review ID, with a hash of the three. Each run compares what it collected
+ * against the snapshot and emits change events (created, text-edited,
+ * rating-changed, owner-replied, disappeared) with before and after values.
+ * The first run for a place only records the baseline. Reviews without a
+ * Google ID or a reviewer ID are keyed by a hash that includes their text,
+ * so an edit to one shows up as disappeared plus created.
+ */
+
+import { createHash } from "node:crypto";
+import { log } from "apify";
+import { KeyValueStore } from "crawlee";
+import { OUTPUT_SCHEMA_VERSION } from "./schema.js";
+import type { GoogleReview, PlaceDetails, ReviewChangeEvent, ReviewSnapshot, ReviewSnapshotRecord, ReviewValues } from "./types.js";
+
+export const DEFAULT_SNAPSHOT_STORE = "tastly-review-snapshots";
+
+/**
+ * What part of the list this run read, which decides whether a review
+ * missing from it has really disappeared.
+ */
+export interface ScrapeCoverage {
+    complete: boolean;    // Every review the place lists was read (unfiltered, no date cutoff)
+    since: string | null; // Every review published after this was read (newest-first, unfiltered)
+}
+
+export async function openSnapshotStore(name = DEFAULT_SNAPSHOT_STORE): Promise<KeyValueStore> {
+    return KeyValueStore.open(name);
+}
+
+export async function loadReviewSnapshots(store: KeyValueStore, key: string): Promise<ReviewSnapshotRecord | null> {
+    return store.getValue<ReviewSnapshotRecord>(key);
+}
+
+function reviewValues(review: GoogleReview): ReviewValues {
+    return { stars: review.stars, text: review.text, responseFromOwnerText: review.responseFromOwnerText };
+}
+
+/** Hash of the fields a change is detected on. */
+export function contentHash(values: ReviewValues): string {
+    return createHash("sha1")
+        .update(JSON.stringify([values.stars, values.text ?? "", values.responseFromOwnerText ?? ""]))
+        .digest("hex")
+        .slice(0, 16);
+}
+
+const DAY_MS = 86_400_000;
+
+/**
+ * How much earlier than its stored date a review may really be. Dates read
+ * from relative text only name the unit of time that has passed ("a year
+ * ago" is anything from 12 to 23 months), and that unit grows with the
+ * review's age when it was read.
+ */
+function datePrecisionMs(publishedAt: string, readAt: string): number {
+    const age = Date.parse(readAt) - Date.parse(publishedAt);
+    if (age < 7 * DAY_MS) return DAY_MS;
+    if (age < 30 * DAY_MS) return 7 * DAY_MS;
+    if (age < 365 * DAY_MS) return 31 * DAY_MS;
+    return 365 * DAY_MS;
+}
+
+/**
+ * Whether a stored review should have been among the ones read: always on
+ * a complete pass, else only when even the earliest date it may have is
+ * after `since`.
+ */
+function wasCovered(snapshot: ReviewSnapshot, coverage: ScrapeCoverage): boolean {
+    if (coverage.complete) return true;
+    if (!coverage.since || !snapshot.publishedAtDate) return false;
+    // The stored date was computed when the review was last read
+    const earliest = Date.parse(snapshot.publishedAtDate) - datePrecisionMs(snapshot.publishedAtDate, snapshot.lastSeenAt);
+    return earliest > Date.parse(coverage.since);
+}
+
+/**
+ * Compare this run's reviews of a place with its snapshot. Returns the
+ * change events and the updated snapshot; reviews that disappeared are
+ * dropped from it, reviews not read this run are kept as they were.
+ */
+export function diffReviews(
+    place: PlaceDetails,
+    previous: ReviewSnapshotRecord | null,
+    reviews: GoogleReview[],
+    coverage: ScrapeCoverage | null,
+): { events: ReviewChangeEvent[]; record: ReviewSnapshotRecord } {
+    const now = new Date().toISOString();
+    const stored = previous?.reviews ?? {};
+    const next: Record<string, ReviewSnapshot> = { ...stored };
+    const events: ReviewChangeEvent[] = [];
+
+    const event = (type: ReviewChangeEvent["type"], reviewId: string, reviewUrl: string | null,
+        before: ReviewValues | null, after: ReviewValues | null): ReviewChangeEvent => ({
+        schemaVersion: OUTPUT_SCHEMA_VERSION,
+        type,
+        reviewId,
+        placeId: place.placeId,
+        placeName: place.name,
+        reviewUrl,
+        before,
+        after,
+        detectedAt: now,
+    });
+
+    for (const review of reviews) {
+        const after = reviewValues(review);
+        const hash = contentHash(after);
+        const old = stored[review.reviewId];
+        next[review.reviewId] = {
+            ...after,
+            hash,
+            publishedAtDate: review.publishedAtDate,
+            reviewUrl: review.reviewUrl,
+            firstSeenAt: old?.firstSeenAt ?? now,
+            lastSeenAt: now,
+        };
+
+        // A place's first run only sets the baseline
+        if (!previous) continue;
+        if (!old) {
+            events.push(event("created", review.reviewId, review.reviewUrl, null, after));
+            continue;
+        }
+        if (old.hash === hash) continue;
+
+        const before: ReviewValues = { stars: old.stars, text: old.text, responseFromOwnerText: old.responseFromOwnerText };
+        if (before.stars !== after.stars) events.push(event("rating-changed", review.reviewId, review.reviewUrl, before, after));
+        if ((before.text ?? "") !== (after.text ?? "")) events.push(event("text-edited", review.reviewId, review.reviewUrl, before, after));
+        if (after.responseFromOwnerText && before.responseFromOwnerText !== after.responseFromOwnerText) {
+            events.push(event("owner-replied", review.reviewId, review.reviewUrl, before, after));
+        }
+    }
+
+    // Without knowing what the run covered, nothing counts as disappeared
+    if (previous && coverage) {
+        const read = new Set(reviews.map((r) => r.reviewId));
+        for (const [reviewId, snapshot] of Object.entries(stored)) {
+            if (read.has(reviewId) || !wasCovered(snapshot, coverage)) continue;
+            const before: ReviewValues = { stars: snapshot.stars, text: snapshot.text, responseFromOwnerText: snapshot.responseFromOwnerText };
+            events.push(event("disappeared", reviewId, snapshot.reviewUrl, before, null));
+            delete next[reviewId];
+        }
+    }
+
+    return {
+        events,
+        record: {
+            placeId: place.placeId ?? previous?.placeId ?? null,
+            placeName: place.name ?? previous?.placeName ?? null,
+            reviews: next,
+            updatedAt: now,
+        },
+    };
+}
+
+export async function saveReviewSnapshots(store: KeyValueStore, key: string, record: ReviewSnapshotRecord): Promise<void> {
+    await store.setValue(key, record);
+    log.info(`  Saved review snapshot "${key}" (${Object.keys(record.reviews).length} reviews)`);
+}
@@ -0,0 +1,117 @@
+#!/usr/bin/env node
+/**
+ * Local command line entry point, no Apify account needed.
+ *
+ *   tastly-reviews --input input.json --output reviews.csv
+ *
+ * The input file holds a GoogleScraperInput object, as given to the actor.
+ * Proxies come from --proxies (one URL per line) or the PROXY_URLS
+ * environment variable (comma or newline separated). Reviews, place details,
+ * reviewer profile reviews (with scrapeReviewerProfiles) and change events
+ * (with trackChanges) each go to their own file; the run summary
+ * and selector-health report (and menu reports, with menuItems) are
+ * written as JSON next to them. With --webhook (or WEBHOOK_URL), records
+ * are also POSTed there in batches.
+ */
+
+import { readFile, writeFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import { log } from "apify";
+import { ProxyConfiguration } from "crawlee";
+import { formatFromPath, OUTPUT_FORMATS, type OutputFormat } from "./output.js";
+import { runScraper, validateInput } from "./scraper.js";
+import { selectorHealthFailure } from "./selectors.js";
+import { combineSinks, createFileSink, createWebhookSink, type OutputSink } from "./sinks.js";
+import type { GoogleScraperInput } from "./types.js";
+
+const USAGE = `Usage: tastly-reviews --input <file> [options]
+
+Options:
+  -i, --input <file>      GoogleScraperInput JSON (required)
+  -o, --output <file>     Reviews output (default: reviews.<format>)
+  -f, --format <format>   ndjson, csv, json or parquet (default: from --output, else ndjson)
+      --places <file>     Place details output (default: places.<format>)
+      --reviewers <file>  Reviewer profile reviews with scrapeReviewerProfiles (default: reviewer-reviews.<format>)
+      --changes <file>    Change events with trackChanges (default: review-changes.<format>)
+      --summary <file>    Run summary, selector health and menu reports JSON (default: run-summary.json)
+      --proxies <file>    Proxy URLs, one per line (default: PROXY_URLS env variable)
+      --webhook <url>     Also POST records to this URL in batches (default: WEBHOOK_URL env variable)
+  -h, --help              Show this help`;
+
+function splitProxyList(text: string): string[] {
+    return text.split(/[\s,]+/).map((s) => s.trim()).filter((s) => s && !s.startsWith("#"));
+}
+
+const { values: args } = parseArgs({
+    options: {
+        input: { type: "string", short: "i" },
+        output: { type: "string", short: "o" },
+        format: { type: "string", short: "f" },
+        places: { type: "string" },
+        reviewers: { type: "string" },
+        changes: { type: "string" },
+        summary: { type: "string" },
+        proxies: { type: "string" },
+        webhook: { type: "string" },
+        help: { type: "boolean", short: "h" },
+    },
+});
+
+if (args.help || !args.input) {
+    console.log(USAGE);
+    process.exit(args.help ? 0 : 1);
+}
+
+const format = (args.format ?? (args.output && formatFromPath(args.output)) ?? "ndjson") as OutputFormat;
+if (!OUTPUT_FORMATS.includes(format)) {
+    console.error(`Unknown format "${format}"; expected one of ${OUTPUT_FORMATS.join(", ")}`);
+    process.exit(1);
+}
+
+const input = JSON.parse(await readFile(args.input, "utf8")) as GoogleScraperInput;
+// Before any output file is created, so a bad input leaves earlier results alone
+try {
+    validateInput(input);
+} catch (err) {
+    console.error((err as Error).message);
+    process.exit(1);
+}
+
+const proxyUrls = args.proxies
+    ? splitProxyList(await readFile(args.proxies, "utf8"))
+    : splitProxyList(process.env.PROXY_URLS ?? "");
+const proxyConfiguration = proxyUrls.length > 0 ? new ProxyConfiguration({ proxyUrls }) : undefined;
+log.info(proxyConfiguration ? `Using ${proxyUrls.length} proxies` : "No proxies configured, connecting directly");
+
+const sinks: OutputSink[] = [await createFileSink({
+    format,
+    reviews: args.output ?? `reviews.${format}`,
+    places: args.places ?? `places.${format}`,
+    reviewerReviews: input.scrapeReviewerProfiles ? args.reviewers ?? `reviewer-reviews.${format}` : null,
+    changes: input.trackChanges ? args.changes ?? `review-changes.${format}` : null,
+})];
+const webhookUrl = args.webhook ?? process.env.WEBHOOK_URL ?? input.webhookUrl;
+if (webhookUrl) {
+    sinks.push(createWebhookSink({ url: webhookUrl, headers: input.webhookHeaders, batchSize: input.webhookBatchSize }));
+    log.info(`Sending records to webhook ${new URL(webhookUrl).origin}`);
+}
+const sink = combineSinks(sinks);
+
+try {
+    const { summary, selectorHealth, menuReports } = await runScraper(input, { proxyConfiguration, sink });
+    await writeFile(args.summary ?? "run-summary.json", `${JSON.stringify({ summary, selectorHealth, menuReports }, null, 2)}\n`);
+
+    const failure = selectorHealthFailure(selectorHealth);
+    if (failure) {
+        log.error(failure);
+        process.exitCode = 1;
+    }
+} catch (err) {
+    log.error(err instanceof Error ? err.message : String(err));
+    process.exitCode = 1;
+} finally {
+    await sink.close().catch((err: Error) => {
+        log.error(err.message);
+        process.exitCode = 1;
+    });
+}
@@ -0,0 +1,451 @@
+/**
+ * Review card extraction from the DOM.
+ *
+ * The functions marked "runs in the page" are passed to page.evaluate, so
+ * they must be self-contained: no imports, no closures over module state.
+ * Everything else turns their raw output into GoogleReview objects and can
+ * be called from plain Node.
+ */
+
+import { log } from "apify";
+import type { Page } from "playwright";
+import type { LocaleLabels } from "./locales.js";
+import type { CardParseStats, GoogleReview, PlaceDetails, SelectorRegistry } from "./types.js";
+import { reviewPermalink } from "./place.js";
+import { OUTPUT_SCHEMA_VERSION } from "./schema.js";
+import {
+    deriveReviewId,
+    detectLanguage,
+    ownerResponseLatencyDays,
+    parseContribUrl,
+    parseRelativeDate,
+    relativeDatePatternSources,
+    splitReviewAttributes,
+    toFullResolutionImageUrl,
+} from "./utils.js";
+
+/** What a review card yields before dates and attributes are normalized. */
+export interface RawReviewCard {
+    reviewId: string | null; // data-review-id, when the card has one
+    name: string;
+    stars: number;
+    dateText: string;
+    text: string | null;
+    textTranslated: string | null;
+    attributes: Array<[string, string]>;
+    responseFromOwnerText: string | null;
+    responseFromOwnerDateText: string | null;
+    reviewImageUrls: string[];
+    likesCount: number;
+    reviewerNumberOfReviews: number | null;
+    reviewerNumberOfPhotos: number | null;
+    reviewerHref: string | null;     // The card's /contrib/ profile link
+    reviewerPhotoUrl: string | null;
+    isLocalGuide: boolean;
+}
+
+/**
+ * Parse every card matching `sel` that has not been parsed yet, marking
+ * each so later passes skip it. Also reports which selector matched each
+ * field and how many cards lacked a name, date or text. Runs in the page.
+ */
+export function parseReviewCards({ sel, selectors, datePatterns }: {
+    sel: string;
+    selectors: SelectorRegistry;
+    datePatterns: string[];
+}): { reviews: RawReviewCard[]; stats: CardParseStats } {
+    const reviews: RawReviewCard[] = [];
+    const stats: CardParseStats = { cards: 0, matched: {}, missing: { name: 0, date: 0, text: 0 } };
+    const cards = document.querySelectorAll(`${sel}:not([data-tastly-seen])`);
+    const dateRegexes = datePatterns.map((p) => new RegExp(p, "iu"));
+
+    const hit = (field: string, selector: string) => {
+        const counts = (stats.matched[field] ??= {});
+        counts[selector] = (counts[selector] ?? 0) + 1;
+    };
+    // First element matching the field's fallbacks, in registry order
+    const pick = (root: Element, field: keyof SelectorRegistry): Element | null => {
+        for (const s of selectors[field]) {
+            const el = root.querySelector(s);
+            if (el) {
+                hit(field, s);
+                return el;
+            }
+        }
+        return null;
+    };
+
+    cards.forEach((card) => {
+        card.setAttribute("data-tastly-seen", "1");
+        try {
+            // === Review ID ===
+            const reviewId = card.getAttribute("data-review-id") ||
+                card.querySelector("[data-review-id]")?.getAttribute("data-review-id") || null;
+
+            // === Star rating ===
+            // aria-label is localized ("5 stars", "5 estrellas", "5 Sterne", ...)
+            let stars = 0;
+            let starEl = pick(card, "stars");
+            if (!starEl) {
+                starEl = Array.from(card.querySelectorAll('[role="img"][aria-label]')).find((el) =>
+                    /\d\s*(star|estrel|étoile|stern|stell)/i.test(el.getAttribute("aria-label") || "")) ?? null;
+                if (starEl) hit("stars", "fallback");
+            }
+            if (starEl) {
+                const m = starEl.getAttribute("aria-label")?.match(/(\d+)/);
+                if (m) stars = parseInt(m[1]);
+            }
+            // Not a review (e.g. a header card); don't count it toward coverage
+            if (stars < 1 || stars > 5) return;
+            stats.cards++;
+
+            // === Reviewer name ===
+            let name = "Anonymous";
+            const nameEl = pick(card, "reviewerName");
+            if (nameEl) {
+                const n = nameEl.textContent?.trim() || "";
+                if (n.length > 0 && n.length < 80) name = n;
+            }
+            // Fallback: first link text inside the card
+            if (name === "Anonymous") {
+                const firstLink = card.querySelector("a");
+                if (firstLink) {
+                    const n = firstLink.textContent?.trim() || "";
+                    if (n.length > 1 && n.length < 60) {
+                        name = n;
+                        hit("reviewerName", "fallback");
+                    }
+                }
+            }
+            if (name === "Anonymous") stats.missing.name++;
+
+            // === Date ===
+            let dateText = "";
+            const dateEl = pick(card, "date");
+            if (dateEl) {
+                dateText = dateEl.textContent?.trim() || "";
+            }
+            if (!dateText) {
+                const spans = card.querySelectorAll("span");
+                for (const s of spans) {
+                    const t = s.textContent?.trim() || "";
+                    if (t.length < 40 && dateRegexes.some((r) => r.test(t))) {
+                        dateText = t;
+                        hit("date", "fallback");
+                        break;
+                    }
+                }
+            }
+            if (!dateText) stats.missing.date++;
+
+            // === Review text ===
+            let text: string | null = null;
+            const textEl = pick(card, "text");
+            if (textEl) {
+                const t = textEl.textContent?.trim() || "";
+                if (t.length > 0) text = t;
+            }
+            // Fallback: longest span with text > 30 chars
+            if (!text) {
+                const spans = card.querySelectorAll("span");
+                let maxLen = 0;
+                for (const s of spans) {
+                    const t = s.textContent?.trim() || "";
+                    if (t.length > maxLen && t.length > 30) {
+                        text = t;
+                        maxLen = t.length;
+                    }
+                }
+                if (text) hit("text", "fallback");
+            }
+            if (!text) stats.missing.text++;
+
+            // === Owner response ===
+            let responseFromOwnerText: string | null = null;
+            let responseFromOwnerDateText: string | null = null;
+            const responseContainer = pick(card, "ownerResponse");
+            if (responseContainer) {
+                const respText = pick(responseContainer, "ownerResponseText");
+                if (respText) responseFromOwnerText = respText.textContent?.trim() || null;
+                const respDate = pick(responseContainer, "ownerResponseDate");
+                if (respDate) responseFromOwnerDateText = respDate.textContent?.trim() || null;
+            }
+
+            // === Photos ===
+            // Thumbnails are buttons with the image as an inline background
+            const reviewImageUrls: string[] = [];
+            card.querySelectorAll(selectors.photo.join(", ")).forEach((btn) => {
+                const style = btn.getAttribute("style") || "";
+                const m = style.match(/url\(["']?([^"')]+)["']?\)/);
+                if (m && !reviewImageUrls.includes(m[1])) reviewImageUrls.push(m[1]);
+            });
+
+            // === Restaurant attributes ===
+            // "Food: 5 | Service: 4" and "Meal type / Dine in" rows under the text
+            const attributes: Array<[string, string]> = [];
+            card.querySelectorAll(selectors.attributeRow.join(", ")).forEach((row) => {
+                const full = row.textContent?.trim() || "";
+                const spans = Array.from(row.querySelectorAll(selectors.attributeValue.join(", ")))
+                    .map((s) => s.textContent?.trim() || "")
+                    .filter(Boolean);
+                if (!full.includes("|") && spans.length >= 2) {
+                    attributes.push([spans[0], spans.slice(1).join(", ")]);
+                    return;
+                }
+                // Inline form: "Food: 5/5 | Service: 4/5 | Atmosphere: 5/5"
+                for (const part of full.split("|")) {
+                    const colon = part.indexOf(":");
+                    if (colon > 0) attributes.push([part.slice(0, colon), part.slice(colon + 1)]);
+                }
+            });
+
+            // === Likes ===
+            let likesCount = 0;
+            const likesEl = pick(card, "likes");
+            if (likesEl) {
+                const m = likesEl.textContent?.match(/(\d+)/);
+                if (m) likesCount = parseInt(m[1]);
+            }
+
+            // === Reviewer info ===
+            let reviewerNumberOfReviews: number | null = null;
+            let reviewerNumberOfPhotos: number | null = null;
+            let isLocalGuide = false;
+            const infoEls = card.querySelectorAll(selectors.reviewerInfo.join(", "));
+            for (const el of infoEls) {
+                const t = el.textContent?.trim() || "";
+                if (t.includes("Local Guide")) isLocalGuide = true;
+                const m = t.match(/(\d+)\s+(review|reseña|avalia|avis|rezension|recension)/i);
+                if (m) reviewerNumberOfReviews = parseInt(m[1]);
+                const p = t.match(/(\d+)\s+(photo|foto)/i);
+                if (p) reviewerNumberOfPhotos = parseInt(p[1]);
+            }
+
+            // === Reviewer profile ===
+            // The avatar and name link to /maps/contrib/<id>, as <a href> or <button data-href>
+            const linkEl = pick(card, "reviewerLink");
+            const reviewerHref = linkEl?.getAttribute("href") || linkEl?.getAttribute("data-href") || null;
+            const reviewerPhotoUrl = pick(card, "reviewerPhoto")?.getAttribute("src") || null;
+
+            // Set when the card was switched from Google's translation to the original
+            const textTranslated = card.getAttribute("data-tastly-translated") || null;
+
+            reviews.push({
+                reviewId, name, stars, dateText, text, textTranslated, attributes,
+                responseFromOwnerText, responseFromOwnerDateText, reviewImageUrls,
+                likesCount, reviewerNumberOfReviews, reviewerNumberOfPhotos, reviewerHref, reviewerPhotoUrl,
+                isLocalGuide,
+            });
+        } catch {
+            // Skip malformed
+        }
+    });
+
+    return { reviews, stats };
+}
+
+/**
+ * For translated cards, stash Google's translation on the card and click
+ * "See original" so the parser reads the original text. Runs in the page.
+ */
+export function switchTranslatedCards({ sel, textSelectors, seeOriginal }: {
+    sel: string;
+    textSelectors: string[];
+    seeOriginal: string[];
+}): number {
+    let count = 0;
+    document.querySelectorAll(sel).forEach((card) => {
+        const toggle = Array.from(card.querySelectorAll("button")).find((b) => {
+            const t = (b.textContent || "").trim().toLowerCase();
+            return seeOriginal.some((l) => t.startsWith(l.toLowerCase()));
+        });
+        const textEl = textSelectors.map((s) => card.querySelector(s)).find(Boolean);
+        if (!toggle || !textEl || card.hasAttribute("data-tastly-translated")) return;
+        card.setAttribute("data-tastly-translated", textEl.textContent?.trim() || "");
+        toggle.click();
+        count++;
+    });
+    return count;
+}
+
+/**
+ * Mark cards whose review IDs are already collected (e.g. from RPC) so DOM
+ * passes skip them. Runs in the page.
+ */
+export function markCardsSeen({ sel, ids }: { sel: string; ids: string[] }): void {
+    const seen = new Set(ids);
+    document.querySelectorAll(sel).forEach((card) => {
+        if (seen.has(card.getAttribute("data-review-id") || "")) card.setAttribute("data-tastly-seen", "1");
+    });
+}
+
+/**
+ * Remove parsed cards from the panel so a long scroll doesn't keep
+ * thousands of nodes alive. The last `keep` stay as the anchor Maps loads
+ * the next page after. Returns how many were removed. Runs in the page.
+ */
+export function removeSeenCards({ sel, keep }: { sel: string; keep: number }): number {
+    const seen = Array.from(document.querySelectorAll(`${sel}[data-tastly-seen]`));
+    const stale = seen.slice(0, Math.max(0, seen.length - keep));
+    stale.forEach((card) => card.remove());
+    return stale.length;
+}
+
+/**
+ * Pick the first card selector that matches anything on the page. Falls
+ * back to walking up from a star rating to its card container.
+ */
+export async function findReviewCardSelector(page: Page, selectors: SelectorRegistry): Promise<{ selector: string; count: number }> {
+    return page.evaluate((candidates: string[]) => {
+        for (const sel of candidates) {
+            const count = document.querySelectorAll(sel).length;
+            if (count > 0) return { selector: sel, count };
+        }
+
+        // Fallback: find elements with star rating aria-labels
+        // and walk up to find the common card container
+        const starEls = document.querySelectorAll('[role="img"][aria-label*="star" i]');
+        if (starEls.length > 0) {
+            // Check parent classes to find a common container
+            const parent = starEls[0].closest(candidates.join(", "));
+            if (parent) {
+                const tag = parent.tagName.toLowerCase();
+                const cls = parent.className ? `.${String(parent.className).split(' ')[0]}` : '';
+                return { selector: `${tag}${cls}`, count: -1 };
+            }
+        }
+
+        return { selector: "none", count: 0 };
+    }, selectors.card);
+}
+
+/**
+ * Log what the page looks like when no review cards could be found.
+ */
+export async function logCardDiagnostics(page: Page, selectors: SelectorRegistry): Promise<void> {
+    const debugInfo = await page.evaluate((scrollSelectors: string[]) => {
+        const results: string[] = [];
+        const title = document.title;
+        results.push(`Page title: ${title}`);
+
+        // Check all role="img" elements
+        const imgRoles = document.querySelectorAll('[role="img"]');
+        results.push(`role="img" elements: ${imgRoles.length}`);
+        for (let i = 0; i < Math.min(imgRoles.length, 5); i++) {
+            const el = imgRoles[i];
+            results.push(`  [${i}] ${el.tagName} aria-label="${el.getAttribute("aria-label")?.slice(0, 50)}"`);
+        }
+
+        // Dump scrollable container content
+        const scrollable = scrollSelectors.map((s) => document.querySelector(s)).find(Boolean);
+        if (scrollable) {
+            results.push(`Scrollable container children: ${scrollable.children.length}`);
+            for (let i = 0; i < Math.min(scrollable.children.length, 5); i++) {
+                const child = scrollable.children[i];
+                const cls = child.className ? String(child.className).slice(0, 60) : "";
+                const text = (child.textContent || "").trim().slice(0, 80);
+                const dataAttrs = Array.from(child.attributes)
+                    .filter(a => a.name.startsWith("data-"))
+                    .map(a => `${a.name}="${a.value.slice(0, 20)}"`)
+                    .join(" ");
+                results.push(`  [${i}] ${child.tagName} class="${cls}" ${dataAttrs}: "${text}"`);
+            }
+        } else {
+            results.push("No scrollable container found");
+        }
+
+        return results;
+    }, selectors.scrollContainer);
+    log.info("  === DIAGNOSTIC ===");
+    for (const line of debugInfo) {
+        log.info(`    ${line}`);
+    }
+}
+
+/**
+ * Expand truncated text ("More" / "See more") and switch translated reviews
+ * back to their original text, in cards matching `freshSel`.
+ */
+export async function expandCards(page: Page, freshSel: string, selectors: SelectorRegistry, labels: LocaleLabels): Promise<void> {
+    // Click every button in one round trip, then wait until they are gone
+    const moreSel = selectors.moreButton.map((btn) => `${freshSel} ${btn}`).join(", ");
+    const clicked = await page.evaluate((sel: string) => {
+        const buttons = document.querySelectorAll<HTMLElement>(sel);
+        buttons.forEach((btn) => btn.click());
+        return buttons.length;
+    }, moreSel);
+    if (clicked > 0) {
+        await page.waitForFunction((sel: string) => !document.querySelector(sel), moreSel, { timeout: 2000 }).catch(() => {});
+    }
+
+    const switched = await page.evaluate(switchTranslatedCards, {
+        sel: freshSel,
+        textSelectors: selectors.text,
+        seeOriginal: labels.seeOriginal,
+    });
+    if (switched > 0) {
+        // Switched cards no longer show the translation they had when clicked
+        await page.waitForFunction(({ sel, textSelectors }: { sel: string; textSelectors: string[] }) =>
+            Array.from(document.querySelectorAll(`${sel}[data-tastly-translated]`)).every((card) => {
+                const textEl = textSelectors.map((s) => card.querySelector(s)).find(Boolean);
+                return textEl?.textContent?.trim() !== card.getAttribute("data-tastly-translated");
+            }), { sel: freshSel, textSelectors: selectors.text }, { timeout: 2000 }).catch(() => {});
+    }
+}
+
+/**
+ * Parse the not-yet-seen cards matching `sel` on the page.
+ */
+export async function extractNewCards(page: Page, sel: string, selectors: SelectorRegistry): Promise<{ reviews: RawReviewCard[]; stats: CardParseStats }> {
+    return page.evaluate(parseReviewCards, { sel, selectors, datePatterns: relativeDatePatternSources() });
+}
+
+/**
+ * Normalize a parsed card into a GoogleReview for `place`. Relative dates
+ * are resolved against `now`.
+ */
+export function toGoogleReview(raw: RawReviewCard, place: PlaceDetails, language: string, now = new Date()): GoogleReview {
+    const { ratings, context } = splitReviewAttributes(raw.attributes);
+    const publishedAtDate = parseRelativeDate(raw.dateText, language, now);
+    const reviewer = parseContribUrl(raw.reviewerHref);
+    const reviewId = raw.reviewId ?? deriveReviewId({
+        place: place.fid ?? place.url,
+        reviewerId: reviewer.reviewerId,
+        reviewer: raw.name,
+        stars: raw.stars,
+        text: raw.text,
+    });
+    const responseFromOwnerDate = raw.responseFromOwnerDateText
+        ? parseRelativeDate(raw.responseFromOwnerDateText, language, now)
+        : null;
+    return {
+        schemaVersion: OUTPUT_SCHEMA_VERSION,
+        reviewId,
+        reviewIdSource: raw.reviewId ? "native" : "derived",
+        placeId: place.placeId,
+        placeName: place.name,
+        placeUrl: place.url,
+        name: raw.name || "Anonymous",
+        stars: raw.stars,
+        publishedAtDate,
+        text: raw.text,
+        textTranslated: raw.textTranslated,
+        reviewUrl: raw.reviewId ? reviewPermalink(raw.reviewId, place.fid) : null,
+        responseFromOwnerText: raw.responseFromOwnerText,
+        responseFromOwnerDate,
+        ownerResponseLatencyDays: ownerResponseLatencyDays(publishedAtDate, responseFromOwnerDate),
+        likesCount: raw.likesCount,
+        reviewImageUrls: raw.reviewImageUrls.map(toFullResolutionImageUrl),
+        reviewDetailedRating: ratings,
+        reviewContext: context,
+        ...reviewer,
+        reviewerPhotoUrl: raw.reviewerPhotoUrl,
+        reviewerNumberOfReviews: raw.reviewerNumberOfReviews,
+        reviewerNumberOfPhotos: raw.reviewerNumberOfPhotos,
+        isLocalGuide: raw.isLocalGuide,
+        language: detectLanguage(raw.text) ?? language,
+        reviewOrigin: "Google",
+        topics: [],
+        mentionedItems: [],
+    };
+}
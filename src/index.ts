@@ -0,0 +1,25 @@
+/**
+ * Library entry point for calling the scraper from other Node services.
+ */
+
+export { iteratePlaceReviews, runScraper, scrapePlaceReviews } from "./scraper.js";
+export type { PlaceReviewsOptions, ScraperOptions, ScraperResult } from "./scraper.js";
+export { combineSinks, createFileSink, createWebhookSink } from "./sinks.js";
+export type { FileSinkOptions, OutputSink, RecordKind, WebhookSinkOptions } from "./sinks.js";
+export { OUTPUT_SCHEMA_VERSION } from "./schema.js";
+export type {
+    GoogleReview,
+    GoogleScraperInput,
+    MenuItemInput,
+    MenuReport,
+    PlaceDetails,
+    PlaceInput,
+    PlaceSummary,
+    ReviewChangeEvent,
+    ReviewerProfileReview,
+    ReviewSortOrder,
+    ReviewTopic,
+    RunSummary,
+    ScraperSink,
+    SelectorHealthReport,
+} from "./types.js";
@@ -0,0 +1,197 @@
+/**
+ * Per-language data: relative date grammars, the UI labels we match on when
+ * Maps is rendered in that language, and stopwords for language detection.
+ */
+
+import type { ReviewSortOrder } from "./types.js";
+
+export type DateUnit = "second" | "minute" | "hour" | "day" | "week" | "month" | "year";
+
+export interface RelativeDateGrammar {
+    /** Each pattern captures the quantity (group 1) and the unit word (group 2). */
+    patterns: RegExp[];
+    /** Words standing in for a quantity of one ("a", "un", "einem", ...). */
+    one: string[];
+    /** Every inflected unit word, lowercased. */
+    units: Record<string, DateUnit>;
+}
+
+export interface LocaleLabels {
+    reviewsTab: string[];
+    sortOptions: Record<ReviewSortOrder, string[]>; // Sort menu item texts
+    sortButton: string[];
+    seeOriginal: string[];
+    searchReviews: string[]; // aria-label of the "Search reviews" box and its button
+}
+
+export const SUPPORTED_LANGUAGES = ["en", "es", "pt", "fr", "de", "it"] as const;
+export type SupportedLanguage = (typeof SUPPORTED_LANGUAGES)[number];
+
+export const DATE_GRAMMARS: Record<SupportedLanguage, RelativeDateGrammar> = {
+    en: {
+        patterns: [/(\d+|an?|one)\s+(\w+)\s+ago/],
+        one: ["a", "an", "one"],
+        units: {
+            second: "second", seconds: "second", minute: "minute", minutes: "minute",
+            hour: "hour", hours: "hour", day: "day", days: "day", week: "week", weeks: "week",
+            month: "month", months: "month", year: "year", years: "year",
+        },
+    },
+    es: {
+        patterns: [/hace\s+(\d+|una?)\s+(\p{L}+)/u],
+        one: ["un", "una"],
+        units: {
+            segundo: "second", segundos: "second", minuto: "minute", minutos: "minute",
+            hora: "hour", horas: "hour", "día": "day", "días": "day", dia: "day", dias: "day",
+            semana: "week", semanas: "week", mes: "month", meses: "month",
+            "año": "year", "años": "year",
+        },
+    },
+    pt: {
+        patterns: [/há\s+(\d+|uma?)\s+(\p{L}+)/u, /(\d+|uma?)\s+(\p{L}+)\s+atrás/u],
+        one: ["um", "uma"],
+        units: {
+            segundo: "second", segundos: "second", minuto: "minute", minutos: "minute",
+            hora: "hour", horas: "hour", dia: "day", dias: "day", semana: "week", semanas: "week",
+            "mês": "month", mes: "month", meses: "month", ano: "year", anos: "year",
+        },
+    },
+    fr: {
+        patterns: [/il y a\s+(\d+|une?)\s+(\p{L}+)/u],
+        one: ["un", "une"],
+        units: {
+            seconde: "second", secondes: "second", minute: "minute", minutes: "minute",
+            heure: "hour", heures: "hour", jour: "day", jours: "day", semaine: "week", semaines: "week",
+            mois: "month", an: "year", ans: "year", "année": "year", "années": "year",
+        },
+    },
+    de: {
+        patterns: [/vor\s+(\d+|einem|einer)\s+(\p{L}+)/u],
+        one: ["einem", "einer"],
+        units: {
+            sekunde: "second", sekunden: "second", minute: "minute", minuten: "minute",
+            stunde: "hour", stunden: "hour", tag: "day", tagen: "day", woche: "week", wochen: "week",
+            monat: "month", monaten: "month", jahr: "year", jahren: "year",
+        },
+    },
+    it: {
+        patterns: [/(\d+|una?|uno)\s+(\p{L}+)\s+fa/u],
+        one: ["un", "una", "uno"],
+        units: {
+            secondo: "second", secondi: "second", minuto: "minute", minuti: "minute",
+            ora: "hour", ore: "hour", giorno: "day", giorni: "day", settimana: "week", settimane: "week",
+            mese: "month", mesi: "month", anno: "year", anni: "year",
+        },
+    },
+};
+
+export const LOCALE_LABELS: Record<SupportedLanguage, LocaleLabels> = {
+    en: {
+        reviewsTab: ["Reviews"],
+        sortOptions: {
+            mostRelevant: ["Most relevant"],
+            newest: ["Newest"],
+            highestRating: ["Highest rating"],
+            lowestRating: ["Lowest rating"],
+        },
+        sortButton: ["Sort"],
+        seeOriginal: ["See original"],
+        searchReviews: ["Search reviews"],
+    },
+    es: {
+        reviewsTab: ["Reseñas", "Opiniones"],
+        sortOptions: {
+            mostRelevant: ["Más relevantes"],
+            newest: ["Más recientes"],
+            highestRating: ["Calificación más alta", "Puntuación más alta"],
+            lowestRating: ["Calificación más baja", "Puntuación más baja"],
+        },
+        sortButton: ["Ordenar"],
+        seeOriginal: ["Ver original"],
+        searchReviews: ["Buscar reseñas", "Buscar opiniones"],
+    },
+    pt: {
+        reviewsTab: ["Avaliações", "Comentários"],
+        sortOptions: {
+            mostRelevant: ["Mais relevantes"],
+            newest: ["Mais recentes"],
+            highestRating: ["Classificação mais alta", "Nota mais alta"],
+            lowestRating: ["Classificação mais baixa", "Nota mais baixa"],
+        },
+        sortButton: ["Ordenar", "Classificar"],
+        seeOriginal: ["Ver original", "Ver o original"],
+        searchReviews: ["Pesquisar avaliações", "Pesquisar comentários"],
+    },
+    fr: {
+        reviewsTab: ["Avis"],
+        sortOptions: {
+            mostRelevant: ["Les plus pertinents", "Plus pertinents"],
+            newest: ["Plus récents", "Les plus récents"],
+            highestRating: ["Note la plus élevée", "Les mieux notés"],
+            lowestRating: ["Note la plus basse", "Les moins bien notés"],
+        },
+        sortButton: ["Trier"],
+        seeOriginal: ["Voir l'original", "Afficher l'original"],
+        searchReviews: ["Rechercher dans les avis", "Rechercher des avis"],
+    },
+    de: {
+        reviewsTab: ["Rezensionen", "Bewertungen"],
+        sortOptions: {
+            mostRelevant: ["Relevanteste", "Am relevantesten"],
+            newest: ["Neueste"],
+            highestRating: ["Höchste Bewertung", "Beste Bewertung"],
+            lowestRating: ["Niedrigste Bewertung", "Schlechteste Bewertung"],
+        },
+        sortButton: ["Sortieren"],
+        seeOriginal: ["Original anzeigen"],
+        searchReviews: ["Rezensionen durchsuchen"],
+    },
+    it: {
+        reviewsTab: ["Recensioni"],
+        sortOptions: {
+            mostRelevant: ["Più pertinenti"],
+            newest: ["Più recenti"],
+            highestRating: ["Valutazione più alta", "Voto più alto"],
+            lowestRating: ["Valutazione più bassa", "Voto più basso"],
+        },
+        sortButton: ["Ordina"],
+        seeOriginal: ["Vedi originale", "Mostra originale"],
+        searchReviews: ["Cerca nelle recensioni", "Cerca recensioni"],
+    },
+};
+
+/** High-frequency function words that tell the supported languages apart. */
+export const STOPWORDS: Record<SupportedLanguage, string[]> = {
+    en: ["the", "and", "was", "with", "for", "very", "this", "that", "were", "but", "our", "they", "great", "food"],
+    es: ["el", "la", "los", "las", "y", "muy", "con", "para", "pero", "una", "del", "que", "comida", "fue"],
+    pt: ["o", "os", "as", "e", "muito", "com", "para", "mas", "uma", "do", "da", "não", "comida", "foi"],
+    fr: ["le", "les", "et", "très", "avec", "pour", "mais", "une", "du", "des", "est", "nous", "était", "pas"],
+    de: ["der", "die", "das", "und", "sehr", "mit", "für", "aber", "ein", "eine", "ist", "war", "nicht", "wir"],
+    it: ["il", "lo", "gli", "e", "molto", "con", "per", "ma", "una", "del", "della", "è", "non", "era"],
+};
+
+export function isSupportedLanguage(language: string): language is SupportedLanguage {
+    return (SUPPORTED_LANGUAGES as readonly string[]).includes(language);
+}
+
+/**
+ * UI labels for a language. English labels are always included because
+ * Google falls back to English for parts of the UI it has not translated.
+ */
+export function labelsFor(language: string): LocaleLabels {
+    const en = LOCALE_LABELS.en;
+    if (!isSupportedLanguage(language) || language === "en") return en;
+    const local = LOCALE_LABELS[language];
+    return {
+        reviewsTab: [...local.reviewsTab, ...en.reviewsTab],
+        sortOptions: {
+            mostRelevant: [...local.sortOptions.mostRelevant, ...en.sortOptions.mostRelevant],
+            newest: [...local.sortOptions.newest, ...en.sortOptions.newest],
+            highestRating: [...local.sortOptions.highestRating, ...en.sortOptions.highestRating],
+            lowestRating: [...local.sortOptions.lowestRating, ...en.sortOptions.lowestRating],
+        },
+        sortButton: [...local.sortButton, ...en.sortButton],
+        seeOriginal: [...local.seeOriginal, ...en.seeOriginal],
+        searchReviews: [...local.searchReviews, ...en.searchReviews],
+    };
+}
@@ -0,0 +1,184 @@
+/**
+ * Menu-item mentions.
+ *
+ * Given a client's dish list (names plus aliases), find which dishes each
+ * review mentions. Matching is local and offline: text is reduced to
+ * accent-free, singular word tokens, and a dish matches a run of words
+ * when every word matches ("tacos" ~ "taco", "pies" ~ "pie"), long words
+ * allowing a typo ("brisket" ~ "briskett"), or when the run spelled
+ * without spaces matches ("cheese cake" ~ "cheesecake"). Both the original and the translated
+ * text are searched. Each place gets a report of mention counts and the
+ * average stars of the reviews mentioning each dish.
+ */
+
+import type { GoogleReview, MenuItemInput, MenuReport, PlaceDetails } from "./types.js";
+
+/** A dish with every spelling it may appear under, pre-tokenized. */
+export interface CompiledMenuItem {
+    name: string;
+    variants: string[][]; // Token sequences of the name and each alias
+}
+
+/** Filler words, dropped from dish names and review text alike ("mac & cheese" ~ "mac and cheese"). */
+const STOP_WORDS = new Set(["a", "an", "the", "of", "and", "with", "de", "la", "el", "le", "du", "al"]);
+
+/**
+ * Frequent words that are one letter away from a dish name ("desert",
+ * "dessert"). They are never taken for a typo.
+ */
+const COMMON_WORDS = new Set([
+    "desert", "deserve", "deserved", "served", "server", "service", "started", "starter", "stared",
+    "another", "brother", "bother", "better", "butter", "letter", "matter", "waiter", "winter", "writer",
+    "pleased", "pleasant", "present", "perfect", "person", "season", "reason", "because", "between", "without",
+    "toasted", "roasted", "posted", "hosted", "tasted", "wasted", "parked", "parking", "waiting", "ordered",
+    "offered", "friend", "friendly", "morning", "evening", "through", "thought", "brought", "bought",
+    "amazing", "average", "several", "special", "general", "kitchen", "manager", "minute", "birthday",
+]);
+
+/**
+ * Crude English singular: "fries" → "fry", "tomatoes" → "tomato",
+ * "dishes" → "dish", "ribs" → "rib". Words ending in "ss", "us" or "is"
+ * are left alone. "-ies" always becomes "-y", so "pies" is "py"; word
+ * matching treats "-ie" and "-y" endings alike.
+ */
+export function singularize(word: string): string {
+    if (word.length <= 3) return word;
+    if (word.endsWith("ies")) return `${word.slice(0, -3)}y`;
+    if (/(?:ch|sh|x|z|ss|o)es$/.test(word)) return word.slice(0, -2);
+    if (word.endsWith("s") && !/(?:ss|us|is)$/.test(word)) return word.slice(0, -1);
+    return word;
+}
+
+/** Lowercase, accent-free, singular word tokens, without filler words. */
+export function menuTokens(text: string): string[] {
+    const tokens = text
+        .normalize("NFKD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .toLowerCase()
+        .replace(/['’]/g, "")
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter(Boolean)
+        .map(singularize);
+    return tokens.filter((t) => !STOP_WORDS.has(t));
+}
+
+/** Edit distance, giving up as soon as it exceeds `max`. */
+function withinDistance(a: string, b: string, max: number): boolean {
+    if (a === b) return true;
+    if (Math.abs(a.length - b.length) > max) return false;
+    let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const curr = [i];
+        let rowMin = i;
+        for (let j = 1; j <= b.length; j++) {
+            curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+            rowMin = Math.min(rowMin, curr[j]);
+        }
+        if (rowMin > max) return false;
+        prev = curr;
+    }
+    return prev[b.length] <= max;
+}
+
+/** Typos allowed for a word of this length: none below 7 letters, where real words sit one edit apart. */
+function allowedEdits(word: string): number {
+    if (word.length >= 10) return 2;
+    if (word.length >= 7) return 1;
+    return 0;
+}
+
+/** "cookie" and "cooky" (from "cookies") are the same word. */
+function foldIeEnding(word: string): string {
+    return word.endsWith("ie") ? `${word.slice(0, -2)}y` : word;
+}
+
+function wordsMatch(expected: string, actual: string): boolean {
+    const e = foldIeEnding(expected);
+    const a = foldIeEnding(actual);
+    if (e === a) return true;
+    // A typo never changes the first letter, and a real word is not a typo
+    if (e[0] !== a[0] || COMMON_WORDS.has(actual)) return false;
+    return withinDistance(e, a, allowedEdits(expected));
+}
+
+/**
+ * Tokenize the dish list. Bare strings are names without aliases; items
+ * with no usable word are dropped.
+ */
+export function compileMenu(items: (MenuItemInput | string)[]): CompiledMenuItem[] {
+    const compiled: CompiledMenuItem[] = [];
+    for (const item of items) {
+        const { name, aliases = [] } = typeof item === "string" ? { name: item } : item;
+        if (!name?.trim()) continue;
+        const variants = [name, ...aliases]
+            .map((spelling) => menuTokens(spelling))
+            .filter((tokens) => tokens.length > 0 && tokens.join("").length >= 3);
+        if (variants.length > 0) compiled.push({ name: name.trim(), variants });
+    }
+    return compiled;
+}
+
+/** Whether `variant` occurs in `tokens`, word by word or spelled as one word. */
+function containsVariant(tokens: string[], variant: string[]): boolean {
+    const joined = variant.join("");
+    for (let i = 0; i < tokens.length; i++) {
+        if (i + variant.length <= tokens.length && variant.every((word, k) => wordsMatch(word, tokens[i + k]))) {
+            return true;
+        }
+        // "cheesecake" written as "cheese cake", or the other way round
+        for (let len = Math.max(1, variant.length - 1); len <= variant.length + 1; len++) {
+            if (len === variant.length || i + len > tokens.length || joined.length < 6) continue;
+            if (wordsMatch(joined, tokens.slice(i, i + len).join(""))) return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * Names of the dishes mentioned in any of `texts`, in menu order.
+ */
+export function matchMenuItems(menu: CompiledMenuItem[], texts: (string | null)[]): string[] {
+    const tokenized = texts.filter((t): t is string => !!t).map(menuTokens);
+    if (tokenized.length === 0) return [];
+    return menu
+        .filter((item) => item.variants.some((variant) => tokenized.some((tokens) => containsVariant(tokens, variant))))
+        .map((item) => item.name);
+}
+
+/**
+ * KeyValueStore key for a place's report; like the incremental state key,
+ * it is built from the feature ID, and characters keys can't hold are
+ * replaced.
+ */
+export function menuReportKey(report: MenuReport): string {
+    const id = report.fid ?? report.placeUrl;
+    return `MENU-${id.replace(/[^a-zA-Z0-9!\-_.'()]/g, "-")}`.slice(0, 256);
+}
+
+/**
+ * Mention counts and average stars per dish over a place's reviews, most
+ * mentioned first. Dishes nobody mentioned are listed with zero mentions.
+ */
+export function buildMenuReport(menu: CompiledMenuItem[], place: PlaceDetails, reviews: GoogleReview[]): MenuReport {
+    const items = menu.map((item) => {
+        const mentioning = reviews.filter((r) => r.mentionedItems.includes(item.name));
+        const starSum = mentioning.reduce((sum, r) => sum + r.stars, 0);
+        return {
+            name: item.name,
+            mentions: mentioning.length,
+            averageStars: mentioning.length > 0 ? Math.round((starSum / mentioning.length) * 100) / 100 : null,
+        };
+    });
+    items.sort((a, b) => b.mentions - a.mentions);
+
+    return {
+        placeId: place.placeId,
+        fid: place.fid,
+        placeName: place.name,
+        placeUrl: place.url,
+        generatedAt: new Date().toISOString(),
+        reviewsScanned: reviews.length,
+        reviewsWithMentions: reviews.filter((r) => r.mentionedItems.length > 0).length,
+        items,
+    };
+}
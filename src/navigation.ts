@@ -0,0 +1,328 @@
+/**
+ * Page navigation inside a place panel: consent dialog, the Reviews tab,
+ * the sort menu and the review search box. Each step tries several
+ * strategies because Google renders these controls differently across
+ * builds and languages.
+ */
+
+import { log } from "apify";
+import type { ElementHandle, Page } from "playwright";
+import type { LocaleLabels } from "./locales.js";
+import type { ReviewSortOrder, SelectorRegistry } from "./types.js";
+
+function matchesAny(text: string, labels: string[]): boolean {
+    const lower = text.toLowerCase();
+    return labels.some((l) => lower.includes(l.toLowerCase()));
+}
+
+/**
+ * Dismiss the cookie consent dialog if Google shows one.
+ */
+export async function dismissConsent(page: Page): Promise<void> {
+    const consentBtn = await page.$('button[aria-label="Accept all"], form[action*="consent"] button');
+    if (consentBtn) {
+        log.info("  Dismissing consent dialog...");
+        await consentBtn.click().catch(() => {});
+        await consentBtn.waitForElementState("hidden", { timeout: 5000 }).catch(() => {});
+    }
+}
+
+/** A page that is not Maps, and why. */
+export interface PageProblem {
+    status: "blocked" | "consent-wall";
+    reason: string;
+}
+
+/**
+ * Recognise pages that are not Maps at all: Google's "unusual traffic"
+ * interstitial, a CAPTCHA or a sign-in redirect ("blocked"), and a consent
+ * form that is still in the way after dismissConsent ("consent-wall").
+ */
+export async function detectPageProblem(page: Page): Promise<PageProblem | null> {
+    const url = page.url();
+    if (/google\.[a-z.]+\/sorry\//.test(url)) return { status: "blocked", reason: "unusual traffic interstitial" };
+    if (await page.$('form#captcha-form, iframe[src*="recaptcha"], div#recaptcha, div.g-recaptcha')) {
+        return { status: "blocked", reason: "CAPTCHA" };
+    }
+    if (/^https:\/\/accounts\.google\.com\//.test(url)) return { status: "blocked", reason: "sign-in wall" };
+
+    if (/^https:\/\/consent\.google\./.test(url)) return { status: "consent-wall", reason: "consent page" };
+    const consentForm = await page.$('form[action*="consent.google"]');
+    if (consentForm && (await consentForm.isVisible())) return { status: "consent-wall", reason: "consent dialog" };
+
+    return null;
+}
+
+/**
+ * Click the Reviews tab. Tab buttons have role="tab" — Reviews is
+ * typically the 2nd tab. Returns false if no strategy found it.
+ */
+export async function openReviewsTab(page: Page, labels: LocaleLabels): Promise<boolean> {
+    // Strategy 1: button with aria-label containing "Reviews" (or its translation)
+    const reviewsTabByLabel = await page.$(
+        labels.reviewsTab.map((l) => `button[role="tab"][aria-label*="${l}" i]`).join(", "),
+    );
+    if (reviewsTabByLabel) {
+        log.info("  Clicking Reviews tab (aria-label match)...");
+        await reviewsTabByLabel.click();
+        return true;
+    }
+
+    // Strategy 2: tab buttons — click the one with "Review" text
+    const tabs = await page.$$('button[role="tab"]');
+    for (const tab of tabs) {
+        const text = await tab.textContent();
+        if (text && matchesAny(text, labels.reviewsTab)) {
+            log.info(`  Clicking tab: "${text.trim()}"...`);
+            await tab.click();
+            return true;
+        }
+    }
+
+    // Strategy 3: data-tab-index="1" (Reviews is typically index 1)
+    const tabByIndex = await page.$('button[data-tab-index="1"]');
+    if (tabByIndex) {
+        log.info("  Clicking tab index 1...");
+        await tabByIndex.click();
+        return true;
+    }
+
+    log.warning("  Could not find Reviews tab");
+    return false;
+}
+
+/** Position of each order in the sort menu, used when no label matches. */
+const SORT_MENU_INDEX: Record<ReviewSortOrder, number> = {
+    mostRelevant: 0,
+    newest: 1,
+    highestRating: 2,
+    lowestRating: 3,
+};
+
+async function findSortButton(page: Page, selectors: SelectorRegistry, labels: LocaleLabels) {
+    const buttonSelectors = [...selectors.sortButton, ...labels.sortButton.map((l) => `button[aria-label*="${l}" i]`)];
+    for (const sel of buttonSelectors) {
+        const button = await page.$(sel);
+        if (button) return { button, selector: sel };
+    }
+    return null;
+}
+
+/**
+ * Wait until `handle` is removed from the page, as the cards are when Maps
+ * re-renders the review list. False on timeout.
+ */
+async function waitForDetached(page: Page, handle: ElementHandle, timeoutMs = 5000): Promise<boolean> {
+    return page.waitForFunction((el) => !el.isConnected, handle, { timeout: timeoutMs }).then(() => true, () => false);
+}
+
+/**
+ * Click a sort menu option and wait for the list to re-render in the new
+ * order. An option that is already checked reloads nothing, so there is
+ * nothing to wait for.
+ */
+async function clickSortOption(page: Page, item: ElementHandle, cardSelector: string): Promise<void> {
+    const alreadyActive = (await item.getAttribute("aria-checked")) === "true";
+    const firstCard = alreadyActive ? null : await page.$(cardSelector);
+    await item.click();
+    if (firstCard && !(await waitForDetached(page, firstCard))) {
+        log.info("  Review list did not reload after sorting");
+    }
+}
+
+/**
+ * Which order the sort menu marks as checked. Opens the menu, reads the
+ * checked item and closes it again; null when nothing is marked.
+ */
+async function readActiveSort(page: Page, selectors: SelectorRegistry, labels: LocaleLabels): Promise<ReviewSortOrder | null> {
+    const found = await findSortButton(page, selectors, labels);
+    if (!found) return null;
+    const itemSelector = selectors.sortMenuItem.join(", ");
+    await found.button.click();
+    await page.waitForSelector(itemSelector, { state: "visible", timeout: 5000 }).catch(() => {});
+
+    let active: ReviewSortOrder | null = null;
+    const checked = await page.$(selectors.sortMenuItem.map((sel) => `${sel}[aria-checked="true"]`).join(", "));
+    const text = checked ? await checked.textContent() : null;
+    if (text) {
+        const orders = Object.keys(SORT_MENU_INDEX) as ReviewSortOrder[];
+        active = orders.find((order) => matchesAny(text, labels.sortOptions[order])) ?? null;
+    }
+
+    await page.keyboard.press("Escape");
+    await page.waitForSelector(itemSelector, { state: "hidden", timeout: 2000 }).catch(() => {});
+    return active;
+}
+
+/**
+ * Sort the reviews panel by `sortBy` and check which order ended up
+ * active. `onMenuOpened` runs once the sort menu is open, before an option
+ * is clicked. Returns the selector that found the sort button (null if
+ * there was none) and the verified order (null if it could not be read).
+ */
+export async function sortReviews(
+    page: Page,
+    selectors: SelectorRegistry,
+    labels: LocaleLabels,
+    sortBy: ReviewSortOrder,
+    onMenuOpened?: () => void,
+): Promise<{ buttonSelector: string | null; activeSort: ReviewSortOrder | null }> {
+    const found = await findSortButton(page, selectors, labels);
+    if (!found) return { buttonSelector: null, activeSort: null };
+
+    const cardSelector = selectors.card.join(", ");
+    log.info("  Opening sort menu...");
+    await found.button.click();
+    await page.waitForSelector(selectors.sortMenuItem.join(", "), { state: "visible", timeout: 5000 }).catch(() => {
+        log.warning("  Timed out waiting for the sort menu");
+    });
+    onMenuOpened?.();
+
+    // Click the requested order in the menu — try multiple selectors
+    let sorted = false;
+    for (const menuSel of selectors.sortMenuItem) {
+        if (sorted) break;
+        const menuItems = await page.$$(menuSel);
+        log.info(`  Sort menu: ${menuItems.length} items with "${menuSel}"`);
+        for (const item of menuItems) {
+            const text = await item.textContent();
+            if (text && matchesAny(text, labels.sortOptions[sortBy])) {
+                log.info(`  Sorting by ${sortBy} (${menuSel})...`);
+                await clickSortOption(page, item, cardSelector);
+                sorted = true;
+                break;
+            }
+        }
+    }
+    if (!sorted) {
+        // Fallback: the menu lists the orders in a fixed sequence
+        const allItems = await page.$$(selectors.sortMenuItem.join(", "));
+        const index = SORT_MENU_INDEX[sortBy];
+        if (allItems.length > index) {
+            log.info(`  Fallback: clicking sort option #${index + 1} for ${sortBy}...`);
+            await clickSortOption(page, allItems[index], cardSelector);
+        }
+    }
+
+    // After sorting, wait for reviews to reload
+    log.info("  Waiting for reviews to reload after sort...");
+    await page.waitForSelector(cardSelector, { timeout: 15000 }).catch(() => {
+        log.warning("  Timed out waiting for review cards after sort");
+    });
+
+    const activeSort = await readActiveSort(page, selectors, labels);
+    if (activeSort === null) {
+        log.warning(`  Could not verify the active sort order, assuming ${sortBy}`);
+    } else if (activeSort !== sortBy) {
+        log.warning(`  Requested sort ${sortBy} but the panel is sorted by ${activeSort}`);
+    }
+    return { buttonSelector: found.selector, activeSort };
+}
+
+/**
+ * Type `query` into the panel's "Search reviews" box and wait for the
+ * filtered list. `onSearch` runs right before the query is submitted.
+ * Returns false if the box could not be found.
+ */
+export async function searchReviews(
+    page: Page,
+    selectors: SelectorRegistry,
+    labels: LocaleLabels,
+    query: string,
+    onSearch?: () => void,
+): Promise<boolean> {
+    const inputSelector = [
+        ...labels.searchReviews.map((l) => `input[aria-label*="${l}" i]`),
+        ...selectors.reviewSearchInput,
+    ].join(", ");
+
+    let input = await page.$(inputSelector);
+    if (!input || !(await input.isVisible())) {
+        // The box is collapsed behind a magnifier button until clicked
+        const button = await page.$(labels.searchReviews.map((l) => `button[aria-label*="${l}" i]`).join(", "));
+        if (button) {
+            await button.click();
+            input = await page.waitForSelector(inputSelector, { state: "visible", timeout: 5000 }).catch(() => null);
+        }
+    }
+    if (!input) return false;
+
+    log.info(`  Searching reviews for "${query}"...`);
+    const cardSelector = selectors.card.join(", ");
+    const firstCard = await page.$(cardSelector);
+    await input.fill(query);
+    onSearch?.();
+    await input.press("Enter");
+    // The unfiltered cards are replaced by the matching ones
+    if (firstCard) await waitForDetached(page, firstCard, 10000);
+    await page.waitForSelector(cardSelector, { timeout: 15000 }).catch(() => {
+        log.warning(`  No review cards after searching for "${query}"`);
+    });
+    return true;
+}
+
+/**
+ * Click the topic chip labelled `topic` so the list shows only reviews
+ * mentioning it. `onSelect` runs right before the click. Returns false if
+ * the chip is not on the page.
+ */
+export async function selectTopicChip(
+    page: Page,
+    selectors: SelectorRegistry,
+    topic: string,
+    onSelect?: () => void,
+): Promise<boolean> {
+    // Match the whole chip label ("steak 120"), so "steak" doesn't pick "steak frites"
+    const escaped = topic.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    const chip = page.locator(selectors.topicChip.join(", "))
+        .filter({ hasText: new RegExp(`^\\s*${escaped}\\s*\\(?[\\d.,\\s]*\\)?$`, "i") })
+        .first();
+    if ((await chip.count()) === 0) return false;
+
+    onSelect?.();
+    await chip.click({ timeout: 5000 });
+    return true;
+}
+
+/** Map canvas traffic: vector tiles, satellite imagery and Street View. */
+const MAP_TILE_PATTERN = /\/maps\/vt[/?]|\/\/khms\d*\.|streetviewpixels/;
+
+/**
+ * Abort requests for images, fonts, media and map tiles. Image URLs stay
+ * in the DOM, so review and reviewer photo URLs are still extracted.
+ */
+export async function blockHeavyResources(page: Page): Promise<void> {
+    await page.route("**/*", (route) => {
+        const request = route.request();
+        const type = request.resourceType();
+        if (type === "image" || type === "font" || type === "media" || MAP_TILE_PATTERN.test(request.url())) {
+            return route.abort();
+        }
+        return route.continue();
+    });
+}
+
+/**
+ * Wait until a card matching `freshSel` (one not parsed yet) is attached,
+ * instead of sleeping a fixed time after each scroll. False on timeout.
+ */
+export async function waitForFreshCards(page: Page, freshSel: string, timeoutMs = 8000): Promise<boolean> {
+    return page.waitForSelector(freshSel, { state: "attached", timeout: timeoutMs }).then(() => true, () => false);
+}
+
+/**
+ * Scroll the reviews panel to the bottom to trigger loading the next page.
+ * Returns the selector that found the scroll container, or null.
+ */
+export async function scrollReviewsPanel(page: Page, selectors: SelectorRegistry): Promise<string | null> {
+    return page.evaluate((candidates: string[]) => {
+        for (const sel of candidates) {
+            const scrollEl = document.querySelector(sel);
+            if (scrollEl) {
+                scrollEl.scrollTop = scrollEl.scrollHeight;
+                return sel;
+            }
+        }
+        return null;
+    }, selectors.scrollContainer);
+}
@@ -0,0 +1,194 @@
+/**
+ * Place input normalization.
+ *
+ * Places can be given as full Maps URLs, Google place IDs, decimal CIDs,
+ * maps.app.goo.gl short links, or just a name and address. Each form is
+ * turned into a URL Maps opens the place from; a bare name and address
+ * becomes a lookup, a search whose results must contain exactly one place
+ * with that name. When a name is given, the place that opens is checked
+ * against it before any review is scraped.
+ */
+
+import { buildSearchUrl, isSearchUrl } from "./search.js";
+import type { PlaceInput } from "./types.js";
+
+/** What one place input resolves to before the crawl. */
+export interface NormalizedPlace {
+    kind: "place" | "search" | "lookup"; // Lookups are searches that must single out one place
+    url: string;
+    expectedName: string | null; // Checked against the place's title when set
+    source: string;              // The input as given, for logs and the run summary
+}
+
+const PLACE_ID_PATTERN = /^(ChIJ|GhIJ)[\w-]{10,}$/;
+const CID_PATTERN = /^\d{5,20}$/;
+const SHORT_LINK_HOSTS = ["maps.app.goo.gl", "goo.gl"];
+const MAX_REDIRECTS = 5;
+/** Per redirect; a short-link host that doesn't answer must not hold up the run. */
+const SHORT_LINK_TIMEOUT_MS = 10000;
+
+export function placeIdUrl(placeId: string): string {
+    return `https://www.google.com/maps/place/?q=place_id:${encodeURIComponent(placeId)}`;
+}
+
+export function cidUrl(cid: string): string {
+    return `https://www.google.com/maps?cid=${cid}`;
+}
+
+export function isShortLink(url: string): boolean {
+    try {
+        return SHORT_LINK_HOSTS.includes(new URL(url).hostname);
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Follow a short link's redirects until it leaves the short-link host.
+ * Only the Location headers are read; no page is downloaded. Throws when a
+ * hop takes longer than `timeoutMs`.
+ */
+export async function resolveShortLink(url: string, timeoutMs = SHORT_LINK_TIMEOUT_MS): Promise<string> {
+    let current = url;
+    for (let hop = 0; hop < MAX_REDIRECTS && isShortLink(current); hop++) {
+        const res = await fetch(current, { method: "HEAD", redirect: "manual", signal: AbortSignal.timeout(timeoutMs) }).catch((err: Error) => {
+            if (err.name === "TimeoutError") throw new Error(`Short link ${url} did not answer within ${timeoutMs / 1000} s`);
+            throw err;
+        });
+        const location = res.headers.get("location");
+        if (!location) {
+            throw new Error(`Short link ${url} did not redirect (HTTP ${res.status})`);
+        }
+        current = new URL(location, current).toString();
+    }
+    if (isShortLink(current)) throw new Error(`Short link ${url} redirected more than ${MAX_REDIRECTS} times`);
+    return current;
+}
+
+/**
+ * Canonical form of a full Maps URL: place and CID links are kept, and a
+ * Maps URLs API link with query_place_id opens that place directly.
+ */
+function canonicalMapsUrl(raw: string): string {
+    const u = new URL(raw);
+    const queryPlaceId = u.searchParams.get("query_place_id");
+    if (queryPlaceId) return placeIdUrl(queryPlaceId);
+    const cid = u.searchParams.get("cid");
+    if (cid && CID_PATTERN.test(cid)) return cidUrl(cid);
+    return u.toString();
+}
+
+/** Short description of an input for logs and the run summary. */
+export function describePlaceInput(input: PlaceInput): string {
+    if (input.url) return input.url;
+    if (input.placeId) return `place_id:${input.placeId}`;
+    if (input.cid) return `cid:${input.cid}`;
+    return [input.name, input.address].filter(Boolean).join(", ");
+}
+
+/**
+ * Read a bare string as a place input: a place ID, a CID, or a URL.
+ */
+export function parsePlaceInputString(value: string): PlaceInput {
+    const text = value.trim();
+    if (PLACE_ID_PATTERN.test(text)) return { placeId: text };
+    if (CID_PATTERN.test(text)) return { cid: text };
+    return { url: text };
+}
+
+/**
+ * Resolve one place input. Throws with a message naming the input when it
+ * can't be turned into a URL.
+ */
+export async function normalizePlaceInput(input: PlaceInput): Promise<NormalizedPlace> {
+    const source = describePlaceInput(input);
+    const expectedName = input.name?.trim() || null;
+
+    if (input.placeId) {
+        const placeId = input.placeId.trim();
+        if (!PLACE_ID_PATTERN.test(placeId)) throw new Error(`"${placeId}" is not a Google place ID (expected ChIJ…)`);
+        return { kind: "place", url: placeIdUrl(placeId), expectedName, source };
+    }
+
+    if (input.cid) {
+        const cid = String(input.cid).trim();
+        if (!CID_PATTERN.test(cid)) throw new Error(`"${cid}" is not a CID (expected a decimal number)`);
+        return { kind: "place", url: cidUrl(cid), expectedName, source };
+    }
+
+    if (input.url) {
+        let url = input.url.trim();
+        if (isShortLink(url)) {
+            url = await resolveShortLink(url).catch((err: Error) => {
+                throw new Error(`Could not resolve ${source}: ${err.message}`);
+            });
+        }
+        try {
+            url = canonicalMapsUrl(url);
+        } catch {
+            throw new Error(`"${source}" is not a URL, place ID or CID`);
+        }
+        if (isSearchUrl(url)) return { kind: expectedName ? "lookup" : "search", url, expectedName, source };
+        return { kind: "place", url, expectedName, source };
+    }
+
+    if (expectedName) {
+        return { kind: "lookup", url: buildSearchUrl(expectedName, input.address), expectedName, source };
+    }
+
+    throw new Error(`Place input ${JSON.stringify(input)} needs a url, placeId, cid or name`);
+}
+
+// ---------------------------------------------------------------------------
+// Name matching
+// ---------------------------------------------------------------------------
+
+/** Lowercase words without accents, punctuation or a leading "the". */
+function nameTokens(name: string): string[] {
+    const tokens = name
+        .normalize("NFKD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .toLowerCase()
+        .replace(/&/g, " and ")
+        .replace(/['’]/g, "")
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter(Boolean);
+    return tokens[0] === "the" ? tokens.slice(1) : tokens;
+}
+
+/** Dice coefficient over character bigrams, 0–1. */
+function bigramSimilarity(a: string, b: string): number {
+    if (a === b) return 1;
+    if (a.length < 2 || b.length < 2) return 0;
+    const bigrams = new Map<string, number>();
+    for (let i = 0; i < a.length - 1; i++) {
+        const bg = a.slice(i, i + 2);
+        bigrams.set(bg, (bigrams.get(bg) ?? 0) + 1);
+    }
+    let overlap = 0;
+    for (let i = 0; i < b.length - 1; i++) {
+        const bg = b.slice(i, i + 2);
+        const n = bigrams.get(bg) ?? 0;
+        if (n > 0) {
+            bigrams.set(bg, n - 1);
+            overlap++;
+        }
+    }
+    return (2 * overlap) / (a.length + b.length - 2);
+}
+
+/**
+ * Whether a place title is the expected name. The title must start with the
+ * expected name's first word and contain all the others ("Fleming's" matches
+ * "Fleming's Prime Steakhouse & Wine Bar", "Prime" does not), or the two
+ * must be near-identical spellings. A title shorter than the expected name
+ * ("Joe's" for "Joe's Stone Crab") only matches by spelling.
+ */
+export function namesMatch(expected: string, actual: string): boolean {
+    const a = nameTokens(expected);
+    const b = nameTokens(actual);
+    if (a.length === 0 || b.length === 0) return false;
+    const title = new Set(b);
+    if (a[0] === b[0] && a.every((t) => title.has(t))) return true;
+    return bigramSimilarity(a.join(" "), b.join(" ")) >= 0.85;
+}
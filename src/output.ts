@@ -0,0 +1,145 @@
+/**
+ * Local record files: NDJSON, CSV, a JSON array or Parquet. Records are
+ * appended as they arrive, so a long run leaves usable output even if it is
+ * interrupted (except for JSON, whose closing bracket is written last, and
+ * Parquet, whose footer is).
+ */
+
+import { open, rm, type FileHandle } from "node:fs/promises";
+import { extname } from "node:path";
+import { fileWriter, ParquetWriter, schemaFromColumnData, type ColumnSource } from "hyparquet-writer";
+
+export type OutputFormat = "ndjson" | "csv" | "json" | "parquet";
+
+export const OUTPUT_FORMATS: OutputFormat[] = ["ndjson", "csv", "json", "parquet"];
+
+/** Rows buffered before a Parquet row group is written. */
+const PARQUET_ROW_GROUP_SIZE = 1000;
+
+export interface RecordWriter {
+    write(records: object[]): Promise<void>;
+    close(): Promise<void>;
+}
+
+/**
+ * Format implied by a file extension (".jsonl" counts as NDJSON), or null.
+ */
+export function formatFromPath(path: string): OutputFormat | null {
+    const ext = extname(path).toLowerCase();
+    if (ext === ".ndjson" || ext === ".jsonl") return "ndjson";
+    if (ext === ".csv") return "csv";
+    if (ext === ".json") return "json";
+    if (ext === ".parquet") return "parquet";
+    return null;
+}
+
+/**
+ * One CSV cell. Nested values are JSON-encoded; cells with quotes, commas
+ * or line breaks are quoted.
+ */
+function csvCell(value: unknown): string {
+    if (value === null || value === undefined) return "";
+    const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Parquet column type for a column, from its first non-null value. Nested
+ * values are stored as JSON text, like in CSV.
+ */
+function parquetType(rows: Record<string, unknown>[], column: string): "DOUBLE" | "BOOLEAN" | "STRING" {
+    const sample = rows.find((row) => row[column] !== null && row[column] !== undefined)?.[column];
+    if (typeof sample === "number") return "DOUBLE";
+    if (typeof sample === "boolean") return "BOOLEAN";
+    return "STRING";
+}
+
+function parquetValue(value: unknown, type: "DOUBLE" | "BOOLEAN" | "STRING"): string | number | boolean | null {
+    if (value === null || value === undefined) return null;
+    if (type === "DOUBLE") return typeof value === "number" ? value : null;
+    if (type === "BOOLEAN") return typeof value === "boolean" ? value : null;
+    return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Parquet writer. Columns and their types come from the first row group;
+ * every column is nullable.
+ */
+async function openParquetWriter(path: string): Promise<RecordWriter> {
+    // The file is only created once there is a row group to write
+    await rm(path, { force: true });
+
+    let parquet: ParquetWriter | null = null;
+    let columns: Array<{ name: string; type: "DOUBLE" | "BOOLEAN" | "STRING" }> = [];
+    let pending: Record<string, unknown>[] = [];
+
+    const writeRowGroup = async () => {
+        if (pending.length === 0) return;
+        const rows = pending;
+        pending = [];
+        if (!parquet) {
+            columns = Object.keys(rows[0]).map((name) => ({ name, type: parquetType(rows, name) }));
+        }
+        const columnData: ColumnSource[] = columns.map(({ name, type }) => ({
+            name,
+            type,
+            nullable: true,
+            data: rows.map((row) => parquetValue(row[name], type)),
+        }));
+        parquet ??= new ParquetWriter({ writer: fileWriter(path), schema: schemaFromColumnData({ columnData }) });
+        await parquet.write({ columnData, rowGroupSize: rows.length });
+    };
+
+    return {
+        async write(records) {
+            pending.push(...(records as Record<string, unknown>[]));
+            if (pending.length >= PARQUET_ROW_GROUP_SIZE) await writeRowGroup();
+        },
+        async close() {
+            await writeRowGroup();
+            // No rows at all: no file, rather than one without a schema
+            if (parquet) await parquet.finish();
+        },
+    };
+}
+
+/**
+ * Open `path` for writing, truncating it. CSV and Parquet columns are the
+ * keys of the first record written.
+ */
+export async function openRecordWriter(path: string, format: OutputFormat): Promise<RecordWriter> {
+    if (format === "parquet") return openParquetWriter(path);
+
+    const file: FileHandle = await open(path, "w");
+    let columns: string[] | null = null;
+    let count = 0;
+
+    if (format === "json") await file.write("[\n");
+
+    return {
+        async write(records) {
+            if (records.length === 0) return;
+            let chunk = "";
+            for (const record of records) {
+                const row = record as Record<string, unknown>;
+                if (format === "ndjson") {
+                    chunk += `${JSON.stringify(row)}\n`;
+                } else if (format === "json") {
+                    chunk += `${count > 0 ? ",\n" : ""}${JSON.stringify(row)}`;
+                } else {
+                    if (!columns) {
+                        columns = Object.keys(row);
+                        chunk += `${columns.map(csvCell).join(",")}\n`;
+                    }
+                    chunk += `${columns.map((c) => csvCell(row[c])).join(",")}\n`;
+                }
+                count++;
+            }
+            await file.write(chunk);
+        },
+        async close() {
+            if (format === "json") await file.write(count > 0 ? "\n]\n" : "]\n");
+            await file.close();
+        },
+    };
+}
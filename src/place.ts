@@ -0,0 +1,225 @@
+/**
+ * Place metadata extraction.
+ *
+ * Everything here is read from the place panel that is already open before
+ * we switch to the Reviews tab, plus the identifiers Google encodes in the
+ * resolved /maps/place/ URL.
+ */
+
+import type { Page } from "playwright";
+import { OUTPUT_SCHEMA_VERSION } from "./schema.js";
+import type { OpeningHoursEntry, PlaceDetails, ReviewTopic, SelectorRegistry } from "./types.js";
+
+/**
+ * Pull the feature ID ("0x...:0x...") out of a place URL's data segment.
+ * The second half of it is the place's CID in hex.
+ */
+export function parseFeatureId(url: string): string | null {
+    const m = url.match(/!1s(0x[0-9a-f]+:0x[0-9a-f]+)/i);
+    return m ? m[1].toLowerCase() : null;
+}
+
+/**
+ * Shareable Maps link that opens a single review. Needs Google's review ID
+ * and the place's feature ID; null when either is unknown.
+ */
+export function reviewPermalink(reviewId: string, fid: string | null): string | null {
+    if (!fid) return null;
+    return `https://www.google.com/maps/reviews/data=!4m5!14m4!1m3!1m2!1s${encodeURIComponent(reviewId)}!2s${fid}`;
+}
+
+/**
+ * Convert a feature ID to the decimal CID used by `maps?cid=` links.
+ */
+export function featureIdToCid(fid: string): string | null {
+    const hex = fid.split(":")[1];
+    if (!hex) return null;
+    try {
+        return BigInt(hex).toString();
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Read the place coordinates from the URL. The "!3d…!4d…" pair is the pin
+ * itself; "@lat,lng" is only the viewport centre, so it is the fallback.
+ */
+export function parseCoordinates(url: string): { lat: number; lng: number } | null {
+    const pin = url.match(/!3d(-?\d+(?:\.\d+)?)!4d(-?\d+(?:\.\d+)?)/);
+    if (pin) return { lat: parseFloat(pin[1]), lng: parseFloat(pin[2]) };
+
+    const viewport = url.match(/@(-?\d+(?:\.\d+)?),(-?\d+(?:\.\d+)?)/);
+    if (viewport) return { lat: parseFloat(viewport[1]), lng: parseFloat(viewport[2]) };
+
+    return null;
+}
+
+/**
+ * Split the opening-hours aria-label ("Monday, 11 AM to 10 PM; Tuesday, …")
+ * into one entry per day.
+ */
+export function parseOpeningHours(label: string): OpeningHoursEntry[] {
+    return label
+        .split(";")
+        .map((part) => part.replace(/\.\s*Hide open hours.*$/i, "").trim())
+        .filter((part) => part.length > 0)
+        .map((part) => {
+            const comma = part.indexOf(",");
+            if (comma === -1) return { day: part, hours: "" };
+            return { day: part.slice(0, comma).trim(), hours: part.slice(comma + 1).trim() };
+        });
+}
+
+/**
+ * Extract place metadata from the currently open place panel.
+ */
+export async function extractPlaceDetails(page: Page): Promise<PlaceDetails> {
+    const url = page.url();
+
+    const raw = await page.evaluate(() => {
+        const text = (el: Element | null) => el?.textContent?.trim() || null;
+
+        const name = text(document.querySelector("h1.DUwDvf")) || text(document.querySelector("h1"));
+
+        // Overall rating and review count sit together under the title
+        let rating: number | null = null;
+        let reviewsCount: number | null = null;
+        const ratingEl = document.querySelector('div.F7nice span[aria-hidden="true"]');
+        if (ratingEl) {
+            const m = ratingEl.textContent?.replace(",", ".").match(/(\d+(?:\.\d+)?)/);
+            if (m) rating = parseFloat(m[1]);
+        }
+        const countEl =
+            document.querySelector('div.F7nice span[aria-label*="review" i]') ||
+            document.querySelector('button[jsaction*="reviewChart"] span');
+        if (countEl) {
+            const source = countEl.getAttribute("aria-label") || countEl.textContent || "";
+            const m = source.replace(/[.,\s](?=\d{3})/g, "").match(/(\d+)/);
+            if (m) reviewsCount = parseInt(m[1]);
+        }
+
+        const category = text(document.querySelector("button.DkEaL")) ||
+            text(document.querySelector('button[jsaction*="category"]'));
+
+        // Price level is rendered as "$$" with an aria-label like "Price: Moderate"
+        let priceLevel: string | null = null;
+        const priceEl = document.querySelector('span[aria-label^="Price" i]');
+        if (priceEl) priceLevel = text(priceEl) || priceEl.getAttribute("aria-label");
+
+        let address: string | null = null;
+        const addressEl = document.querySelector('button[data-item-id="address"]');
+        if (addressEl) {
+            const label = addressEl.getAttribute("aria-label") || "";
+            // Label is "Address: …" or its translation ("Dirección: …", "Adresse: …")
+            address = label.replace(/^[^:]{1,20}:\s*/, "").trim() || text(addressEl);
+        }
+
+        // The "Write a review" and similar links carry the ChIJ place ID
+        let placeId: string | null = null;
+        const placeIdLink = document.querySelector('a[href*="placeid="], a[href*="place_id:"]');
+        if (placeIdLink) {
+            const m = placeIdLink.getAttribute("href")?.match(/place_?id[=:](ChIJ[\w-]+)/i);
+            if (m) placeId = m[1];
+        }
+
+        let hoursLabel: string | null = null;
+        const hoursEl = document.querySelector('div.t39EBf[aria-label]') ||
+            document.querySelector('[aria-label*="Monday"][aria-label*=";"]');
+        if (hoursEl) hoursLabel = hoursEl.getAttribute("aria-label");
+
+        return { name, rating, reviewsCount, category, priceLevel, address, placeId, hoursLabel };
+    });
+
+    const fid = parseFeatureId(url);
+
+    return {
+        schemaVersion: OUTPUT_SCHEMA_VERSION,
+        placeId: raw.placeId,
+        fid,
+        cid: fid ? featureIdToCid(fid) : null,
+        name: raw.name,
+        url,
+        address: raw.address,
+        rating: raw.rating,
+        reviewsCount: raw.reviewsCount,
+        category: raw.category,
+        priceLevel: raw.priceLevel,
+        location: parseCoordinates(url),
+        openingHours: raw.hoursLabel ? parseOpeningHours(raw.hoursLabel) : [],
+        ratingDistribution: null,
+        reviewTopics: [],
+        scrapedAt: new Date().toISOString(),
+    };
+}
+
+const digits = (text: string) => parseInt(text.replace(/\D/g, ""), 10);
+
+/**
+ * Review counts per star from the histogram rows' labels, e.g. "5 stars,
+ * 1,234 reviews" or "5 estrellas, 1.234 reseñas": the first number is the
+ * star, the second the count. Null when no row could be read.
+ */
+export function parseRatingDistribution(labels: string[]): PlaceDetails["ratingDistribution"] {
+    let distribution: PlaceDetails["ratingDistribution"] = null;
+    for (const label of labels) {
+        const numbers = label.match(/\d+(?:[.,\s\u00a0\u202f]\d{3})*/g);
+        if (!numbers || numbers.length < 2) continue;
+        const stars = numbers[0];
+        if (stars !== "1" && stars !== "2" && stars !== "3" && stars !== "4" && stars !== "5") continue;
+        distribution ??= { "1": 0, "2": 0, "3": 0, "4": 0, "5": 0 };
+        distribution[stars] = digits(numbers[1]);
+    }
+    return distribution;
+}
+
+/** What the top of the Reviews tab shows, plus the selectors that found it. */
+export interface ReviewsOverview {
+    ratingDistribution: PlaceDetails["ratingDistribution"];
+    reviewTopics: ReviewTopic[];
+    histogramSelector: string | null;
+    chipSelector: string | null;
+}
+
+/**
+ * Read the star histogram and the "Refine reviews" topic chips from the
+ * open Reviews tab. Histogram rows are labelled like "5 stars, 1,234
+ * reviews" in every language, so only their numbers are read (see
+ * parseRatingDistribution); the "All" chip has no count and is skipped.
+ */
+export async function extractReviewsOverview(page: Page, selectors: SelectorRegistry): Promise<ReviewsOverview> {
+    const raw = await page.evaluate((selectors: SelectorRegistry) => {
+        const firstMatching = (list: string[]) => {
+            for (const sel of list) {
+                const els = Array.from(document.querySelectorAll(sel));
+                if (els.length > 0) return { sel, els };
+            }
+            return { sel: null, els: [] as Element[] };
+        };
+        const isCount = (t: string) => /^\(?\d[\d.,\s\u00a0\u202f]*\)?$/.test(t);
+
+        const histogram = firstMatching(selectors.ratingHistogramRow);
+        const rows = histogram.els.map((row) => row.getAttribute("aria-label") ?? "");
+
+        const chips = firstMatching(selectors.topicChip);
+        const topics: Array<{ topic: string; count: string }> = [];
+        for (const chip of chips.els) {
+            const texts = Array.from(chip.querySelectorAll("span"))
+                .filter((span) => span.children.length === 0)
+                .map((span) => span.textContent?.trim() ?? "")
+                .filter(Boolean);
+            const count = texts.find(isCount);
+            const topic = texts.find((t) => !isCount(t));
+            if (count && topic) topics.push({ topic, count });
+        }
+
+        return { rows, histogramSelector: histogram.sel, topics, chipSelector: chips.sel };
+    }, selectors);
+
+    return {
+        ratingDistribution: parseRatingDistribution(raw.rows),
+        reviewTopics: raw.topics.map((t) => ({ topic: t.topic, mentions: digits(t.count) })),
+        histogramSelector: raw.histogramSelector,
+        chipSelector: raw.chipSelector,
+    };
+}
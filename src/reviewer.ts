@@ -0,0 +1,129 @@
+/**
+ * Reviewer profile crawl.
+ *
+ * A reviewer's /maps/contrib/<id>/reviews page lists every review they
+ * wrote, about any place. Cards there use the same layout as a place's
+ * reviews panel, except that the slot holding the reviewer name holds the
+ * reviewed place instead. Only reached when scrapeReviewerProfiles is on.
+ */
+
+import { log } from "apify";
+import type { Page } from "playwright";
+import type { LocaleLabels } from "./locales.js";
+import { expandCards, findReviewCardSelector } from "./extract.js";
+import { scrollReviewsPanel, waitForFreshCards } from "./navigation.js";
+import { OUTPUT_SCHEMA_VERSION } from "./schema.js";
+import type { ReviewerProfileReview, SelectorRegistry } from "./types.js";
+import { deriveReviewId, parseRelativeDate } from "./utils.js";
+
+/** What a profile card yields before its date is parsed. */
+interface RawProfileCard {
+    reviewId: string | null;
+    placeName: string | null;
+    placeAddress: string | null;
+    placeHref: string | null;
+    stars: number;
+    dateText: string;
+    text: string | null;
+}
+
+export function reviewerProfileUrl(reviewerId: string, language: string): string {
+    return `https://www.google.com/maps/contrib/${reviewerId}/reviews?hl=${encodeURIComponent(language)}`;
+}
+
+/**
+ * Parse every not-yet-seen profile card matching `sel`, marking each so
+ * later passes skip it. Runs in the page.
+ */
+function parseProfileCards({ sel, selectors }: { sel: string; selectors: SelectorRegistry }): RawProfileCard[] {
+    const first = (root: Element, list: string[]) => {
+        for (const s of list) {
+            const el = root.querySelector(s);
+            if (el) return el;
+        }
+        return null;
+    };
+    const text = (el: Element | null) => el?.textContent?.trim() || null;
+
+    const cards: RawProfileCard[] = [];
+    document.querySelectorAll(`${sel}:not([data-tastly-seen])`).forEach((card) => {
+        card.setAttribute("data-tastly-seen", "1");
+        const m = first(card, selectors.stars)?.getAttribute("aria-label")?.match(/(\d+)/);
+        const stars = m ? parseInt(m[1]) : 0;
+        if (stars < 1 || stars > 5) return;
+
+        const link = first(card, selectors.profilePlaceLink);
+        cards.push({
+            reviewId: card.getAttribute("data-review-id") ||
+                card.querySelector("[data-review-id]")?.getAttribute("data-review-id") || null,
+            placeName: text(first(card, selectors.profilePlaceName)),
+            placeAddress: text(first(card, selectors.profilePlaceAddress)),
+            placeHref: link?.getAttribute("href") || link?.getAttribute("data-href") || null,
+            stars,
+            dateText: text(first(card, selectors.date)) ?? "",
+            text: text(first(card, selectors.text)),
+        });
+    });
+    return cards;
+}
+
+/**
+ * Read up to `maxReviews` reviews from the profile page open in `page`,
+ * scrolling until enough are loaded or the list stops growing.
+ */
+export async function scrapeReviewerProfile(page: Page, options: {
+    selectors: SelectorRegistry;
+    labels: LocaleLabels;
+    language: string;
+    maxReviews: number;
+    reviewerId: string;
+    foundViaPlaceId: string | null;
+}): Promise<ReviewerProfileReview[]> {
+    const { selectors, labels, language, maxReviews, reviewerId, foundViaPlaceId } = options;
+    await page.waitForSelector(selectors.card.join(", "), { timeout: 15000 }).catch(() => {
+        log.warning("  Timed out waiting for profile reviews");
+    });
+    const reviewerName = await page.$eval("h1", (el) => el.textContent?.trim() || null).catch(() => null);
+    const found = await findReviewCardSelector(page, selectors);
+    const cardSelector = found.selector !== "none" ? found.selector : selectors.card[0];
+
+    const raw: RawProfileCard[] = [];
+    let noNewCardsCount = 0;
+    while (raw.length < maxReviews && noNewCardsCount < 3) {
+        await expandCards(page, `${cardSelector}:not([data-tastly-seen])`, selectors, labels);
+        const batch = await page.evaluate(parseProfileCards, { sel: cardSelector, selectors });
+        raw.push(...batch);
+        noNewCardsCount = batch.length === 0 ? noNewCardsCount + 1 : 0;
+        if (raw.length >= maxReviews) break;
+        await scrollReviewsPanel(page, selectors);
+        await waitForFreshCards(page, `${cardSelector}:not([data-tastly-seen])`);
+    }
+
+    const now = new Date();
+    const reviewerUrl = `https://www.google.com/maps/contrib/${reviewerId}`;
+    return raw.slice(0, maxReviews).map((card) => {
+        const publishedAtDate = parseRelativeDate(card.dateText, language, now);
+        return {
+            schemaVersion: OUTPUT_SCHEMA_VERSION,
+            reviewerId,
+            reviewerUrl,
+            reviewerName,
+            foundViaPlaceId,
+            reviewId: card.reviewId ?? deriveReviewId({
+                place: card.placeHref ?? card.placeName ?? "",
+                reviewerId,
+                reviewer: reviewerName ?? "",
+                stars: card.stars,
+                text: card.text,
+            }),
+            reviewIdSource: card.reviewId ? "native" : "derived",
+            placeName: card.placeName,
+            placeAddress: card.placeAddress,
+            placeUrl: card.placeHref ? new URL(card.placeHref, "https://www.google.com").toString() : null,
+            stars: card.stars,
+            publishedAtDate,
+            text: card.text,
+            scrapedAt: now.toISOString(),
+        };
+    });
+}
@@ -0,0 +1,220 @@
+/**
+ * Parser for Google's internal review RPC ("listugcposts") responses.
+ *
+ * While the reviews panel scrolls, Maps fetches each page of reviews as a
+ * JSON array behind an XSSI prefix. Reading those payloads gives us exact
+ * timestamps and full texts without depending on obfuscated CSS classes.
+ * The array layout is positional and undocumented, so every field is read
+ * through an optional path and missing values fall back to defaults.
+ */
+
+import { parseFeatureId, reviewPermalink } from "./place.js";
+import { OUTPUT_SCHEMA_VERSION } from "./schema.js";
+import type { GoogleReview } from "./types.js";
+import {
+    detectLanguage,
+    ownerResponseLatencyDays,
+    parseContribUrl,
+    parseRelativeDate,
+    splitReviewAttributes,
+    toFullResolutionImageUrl,
+} from "./utils.js";
+
+/**
+ * Positions inside one review entry, as observed in current payloads. The
+ * bodies in test/fixtures/listugcposts-*.txt follow this layout; update
+ * them together.
+ */
+const PATHS = {
+    reviewId: [0],
+    createdUsec: [1, 2],
+    updatedUsec: [1, 3],
+    relativeDate: [1, 6],
+    author: [1, 4, 5],
+    authorName: [1, 4, 5, 0],
+    stars: [2, 0, 0],
+    language: [2, 14, 0],
+    text: [2, 15, 0, 0],
+    translatedText: [2, 15, 1, 0],
+    guidedAnswers: [2, 6],
+    images: [2, 2],
+    ownerResponseText: [3, 14, 0, 0],
+    ownerResponseUsec: [3, 1],
+    likes: [4, 1],
+} as const;
+
+/** Position of the 1–5 rating inside a guided answer that has no display values. */
+const GUIDED_RATING_PATH = [11, 0] as const;
+
+/** Place fields stamped on every parsed review. */
+export interface ReviewPlaceRef {
+    placeId: string | null;
+    placeName: string | null;
+    placeUrl: string;
+}
+
+/**
+ * Whether a response URL is one of the review list RPCs.
+ */
+export function isReviewRpcUrl(url: string): boolean {
+    return /\/maps\/rpc\/listugcposts|\/maps\/preview\/review\/listentitiesreviews/.test(url);
+}
+
+/**
+ * Drop the `)]}'` anti-XSSI prefix Google puts in front of RPC JSON.
+ */
+export function stripXssiPrefix(body: string): string {
+    return body.replace(/^\)\]\}'[^\n]*\n?/, "");
+}
+
+function at(value: unknown, path: readonly number[]): unknown {
+    let cur = value;
+    for (const i of path) {
+        if (!Array.isArray(cur)) return undefined;
+        cur = cur[i];
+    }
+    return cur;
+}
+
+function str(value: unknown): string | null {
+    return typeof value === "string" && value.length > 0 ? value : null;
+}
+
+function num(value: unknown): number | null {
+    return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+function usecToIso(value: unknown): string | null {
+    const usec = num(value);
+    return usec ? new Date(Math.floor(usec / 1000)).toISOString() : null;
+}
+
+function collectStrings(value: unknown, out: string[] = []): string[] {
+    if (typeof value === "string") out.push(value);
+    else if (Array.isArray(value)) value.forEach((v) => collectStrings(v, out));
+    return out;
+}
+
+/**
+ * Read the restaurant Q&A block ("Food: 5", "Meal type: Dine in"). Each
+ * answer holds enum keys, a display label and either display values or a
+ * numeric rating; only the human-readable parts are kept.
+ */
+function parseGuidedAnswers(value: unknown): Array<[string, string]> {
+    if (!Array.isArray(value)) return [];
+    const pairs: Array<[string, string]> = [];
+    for (const answer of value) {
+        const [label, ...values] = collectStrings(answer).filter((s) => !/^[A-Z0-9_:]+$/.test(s));
+        if (!label) continue;
+        if (values.length > 0) {
+            pairs.push([label, values.join(", ")]);
+            continue;
+        }
+        const rating = num(at(answer, GUIDED_RATING_PATH));
+        if (rating) pairs.push([label, String(rating)]);
+    }
+    return pairs;
+}
+
+/**
+ * A review entry is an array whose first element is an array starting with
+ * the review ID string and followed by the metadata array.
+ */
+function isReviewEntry(entry: unknown): entry is [unknown[], ...unknown[]] {
+    const review = at(entry, [0]);
+    return Array.isArray(review) && typeof review[0] === "string" && Array.isArray(review[1]);
+}
+
+/**
+ * Find the list of review entries. It normally sits at index 2 of the
+ * payload; a shallow search keeps us working if it moves.
+ */
+function findReviewEntries(payload: unknown, depth = 0): unknown[] {
+    if (!Array.isArray(payload) || depth > 4) return [];
+    const direct = payload[2];
+    if (Array.isArray(direct) && direct.length > 0 && direct.every(isReviewEntry)) return direct;
+    if (payload.length > 0 && payload.every(isReviewEntry)) return payload;
+    for (const child of payload) {
+        const found = findReviewEntries(child, depth + 1);
+        if (found.length > 0) return found;
+    }
+    return [];
+}
+
+/**
+ * Parse one review entry. Returns null when the entry has no ID or rating.
+ * `uiLanguage` is the hl the page was loaded with; relative dates are in it.
+ */
+export function parseReviewEntry(entry: unknown, place: ReviewPlaceRef, uiLanguage = "en"): GoogleReview | null {
+    const review = at(entry, [0]);
+    const reviewId = str(at(review, PATHS.reviewId));
+    const stars = num(at(review, PATHS.stars));
+    if (!reviewId || !stars || stars < 1 || stars > 5) return null;
+
+    // Reviewer subtitle ("Local Guide · 120 reviews") is spread over the author block
+    const authorStrings = collectStrings(at(review, PATHS.author));
+    const countMatch = authorStrings.map((s) => s.match(/(\d[\d,.]*)\s+reviews?/i)).find(Boolean);
+    const photoCountMatch = authorStrings.map((s) => s.match(/(\d[\d,.]*)\s+photos?/i)).find(Boolean);
+    const reviewerPhotoUrl = authorStrings.find((s) => /^https:\/\/\w+\.googleusercontent\.com\//.test(s)) ?? null;
+    const text = str(at(review, PATHS.text));
+    const translated = str(at(review, PATHS.translatedText));
+    const publishedAtDate =
+        usecToIso(at(review, PATHS.createdUsec)) ??
+        usecToIso(at(review, PATHS.updatedUsec)) ??
+        parseRelativeDate(str(at(review, PATHS.relativeDate)) ?? "", uiLanguage);
+    const responseFromOwnerDate = usecToIso(at(review, PATHS.ownerResponseUsec));
+    // Each photo entry nests its googleusercontent URL a few levels deep
+    const images = at(review, PATHS.images);
+    const reviewImageUrls = Array.isArray(images)
+        ? images
+            .map((img) => collectStrings(img).find((s) => /^https:\/\/\w+\.googleusercontent\.com\//.test(s)))
+            .filter((u): u is string => Boolean(u))
+            .map(toFullResolutionImageUrl)
+        : [];
+    const { ratings, context } = splitReviewAttributes(parseGuidedAnswers(at(review, PATHS.guidedAnswers)));
+
+    return {
+        schemaVersion: OUTPUT_SCHEMA_VERSION,
+        reviewId,
+        reviewIdSource: "native",
+        placeId: place.placeId,
+        placeName: place.placeName,
+        placeUrl: place.placeUrl,
+        name: str(at(review, PATHS.authorName)) ?? "Anonymous",
+        stars,
+        publishedAtDate,
+        text,
+        textTranslated: translated !== text ? translated : null,
+        reviewUrl: reviewPermalink(reviewId, parseFeatureId(place.placeUrl)),
+        responseFromOwnerText: str(at(review, PATHS.ownerResponseText)),
+        responseFromOwnerDate,
+        ownerResponseLatencyDays: ownerResponseLatencyDays(publishedAtDate, responseFromOwnerDate),
+        likesCount: num(at(review, PATHS.likes)) ?? 0,
+        reviewImageUrls,
+        reviewDetailedRating: ratings,
+        reviewContext: context,
+        ...parseContribUrl(authorStrings.find((s) => s.includes("/contrib/")) ?? null),
+        reviewerPhotoUrl,
+        reviewerNumberOfReviews: countMatch ? parseInt(countMatch[1].replace(/[,.]/g, "")) : null,
+        reviewerNumberOfPhotos: photoCountMatch ? parseInt(photoCountMatch[1].replace(/[,.]/g, "")) : null,
+        isLocalGuide: authorStrings.some((s) => s.includes("Local Guide")),
+        language: str(at(review, PATHS.language)) ?? detectLanguage(text) ?? uiLanguage,
+        reviewOrigin: "Google",
+        topics: [],
+        mentionedItems: [],
+    };
+}
+
+/**
+ * Parse a raw review RPC response body into reviews.
+ * Throws if the body is not JSON once the XSSI prefix is removed.
+ */
+export function parseReviewRpcBody(body: string, place: ReviewPlaceRef, uiLanguage = "en"): GoogleReview[] {
+    const payload: unknown = JSON.parse(stripXssiPrefix(body));
+    const reviews: GoogleReview[] = [];
+    for (const entry of findReviewEntries(payload)) {
+        const review = parseReviewEntry(entry, place, uiLanguage);
+        if (review) reviews.push(review);
+    }
+    return reviews;
+}
@@ -0,0 +1,9 @@
+/**
+ * Version of the output records: GoogleReview, PlaceDetails,
+ * ReviewerProfileReview and ReviewChangeEvent. Every record carries it as
+ * schemaVersion, so consumers can tell which shape they are reading.
+ *
+ * Bump it when a field is removed, renamed or changes meaning; adding a
+ * field is backwards compatible and does not need a bump.
+ */
+export const OUTPUT_SCHEMA_VERSION = 1;
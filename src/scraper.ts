@@ -0,0 +1,1146 @@
+/**
+ * Scraping core, independent of the Apify platform.
+ *
+ * Google Maps loads reviews in a scrollable side panel — we scroll to
+ * load more and read each page of reviews from the review RPC responses
+ * the panel fetches. Cards those responses miss are still parsed from the
+ * DOM after expanding their truncated text.
+ *
+ * Search URLs and search queries go through the same crawler: the results
+ * feed is scrolled and the listed places are added to the shared queue.
+ * A search URL given as a start URL takes only the top result, as it
+ * always has, unless expandSearchUrls is on.
+ * With scrapeReviewerProfiles on, reviewers' profiles are queued as well.
+ * Place IDs, CIDs, short links and name + address inputs are resolved
+ * first (normalize.ts); a place given with a name is checked against it.
+ *
+ * Places are processed concurrently by a single crawler. Progress for each
+ * place (collected reviews, seen IDs, cutoff flags) is kept in a map keyed
+ * by the request's unique key, so a retry keeps what the last attempt
+ * collected and maxItems / newerThan are enforced per place. Maps has no
+ * way to open the list part-way down, so a retry still scrolls from the
+ * top; it only skips parsing and pushing the reviews it already has.
+ *
+ * Cards are parsed and pushed in batches as they load, and parsed nodes
+ * are removed from the panel so memory stays flat on places with
+ * thousands of reviews. Images, fonts and map tiles are never downloaded,
+ * and each step waits for the page change it causes, not a fixed time.
+ * With scrapeReviewTopics on, each "Refine reviews" topic chip's list is
+ * scrolled after the whole one, tagging reviews with the topics they
+ * were found under.
+ *
+ * Records leave through a ScraperSink, so the Apify actor (main.ts), the
+ * CLI (cli.ts) and library callers (scrapePlaceReviews) share this code.
+ * Block, CAPTCHA and consent pages retire the session and are retried; a
+ * request that still fails leaves a SNAPSHOT-* screenshot and HTML page.
+ */
+
+import { log } from "apify";
+import {
+    Configuration,
+    createPlaywrightRouter,
+    PlaywrightCrawler,
+    ProxyConfiguration,
+    type PlaywrightCrawlerOptions,
+    type Request,
+    type RequestOptions,
+    type Session,
+} from "crawlee";
+import type { Page } from "playwright";
+import type {
+    CardParseStats,
+    GoogleScraperInput,
+    GoogleReview,
+    MenuReport,
+    PlaceDetails,
+    PlaceState,
+    PlaceStatus,
+    PlaceSummary,
+    ReviewSortOrder,
+    RunSummary,
+    ScraperSink,
+    SelectorHealthReport,
+} from "./types.js";
+import { isSupportedLanguage, labelsFor, SUPPORTED_LANGUAGES } from "./locales.js";
+import { extractPlaceDetails, extractReviewsOverview } from "./place.js";
+import { buildMenuReport, compileMenu, matchMenuItems } from "./menu.js";
+import { diffReviews, loadReviewSnapshots, openSnapshotStore, saveReviewSnapshots, type ScrapeCoverage } from "./changes.js";
+import { isReviewRpcUrl, parseReviewRpcBody } from "./rpc.js";
+import { isResetRequested, loadPlaceState, openStateStore, placeStateKey, savePlaceState } from "./state.js";
+import { buildSearchUrl, collectSearchResults, placeKey } from "./search.js";
+import { namesMatch, normalizePlaceInput, parsePlaceInputString, type NormalizedPlace } from "./normalize.js";
+import {
+    blockHeavyResources,
+    detectPageProblem,
+    dismissConsent,
+    openReviewsTab,
+    scrollReviewsPanel,
+    searchReviews,
+    selectTopicChip,
+    sortReviews,
+    waitForFreshCards,
+} from "./navigation.js";
+import { reviewerProfileUrl, scrapeReviewerProfile } from "./reviewer.js";
+import { buildRunSummary, computeReviewStats, resolvePlaceStatus } from "./summary.js";
+import {
+    expandCards,
+    extractNewCards,
+    findReviewCardSelector,
+    logCardDiagnostics,
+    markCardsSeen,
+    removeSeenCards,
+    toGoogleReview,
+} from "./extract.js";
+import {
+    createSelectorHealth,
+    finalizeSelectorHealth,
+    formatShare,
+    mergeCardStats,
+    recordMatch,
+    resolveSelectors,
+} from "./selectors.js";
+
+export interface ScraperOptions {
+    sink: ScraperSink;
+    proxyConfiguration?: ProxyConfiguration;
+    /** Crawlee configuration for the crawler's own storages (request queue, sessions). */
+    config?: Configuration;
+    /** Aborting ends the crawl without waiting for running requests. */
+    signal?: AbortSignal;
+}
+
+export interface ScraperResult {
+    summary: RunSummary;
+    selectorHealth: SelectorHealthReport;
+    menuReports: MenuReport[]; // One per place reached, when menuItems was given
+}
+
+/** Input for a single place; `proxyUrls` replaces the actor's proxy setup. */
+export type PlaceReviewsOptions = Omit<GoogleScraperInput, "startUrls" | "places" | "searchQueries" | "searchLocation" | "expandSearchUrls"> & {
+    proxyUrls?: string[];
+};
+
+/** Results checked for a name match when resolving a name + address lookup. */
+const LOOKUP_MAX_RESULTS = 10;
+
+const SORT_ORDERS: ReviewSortOrder[] = ["newest", "mostRelevant", "highestRating", "lowestRating"];
+
+const LABELS = { SEARCH: "SEARCH", LOOKUP: "LOOKUP", PLACE: "PLACE", REVIEWER: "REVIEWER" } as const;
+
+const browserCrawlerOptions = {
+    maxRequestRetries: 5,
+    headless: true,
+    useSessionPool: true,
+    sessionPoolOptions: {
+        maxPoolSize: 10,
+        sessionOptions: { maxErrorScore: 1 },
+    },
+    launchContext: {
+        launchOptions: {
+            args: ["--no-sandbox", "--disable-setuid-sandbox"],
+        },
+    },
+    navigationTimeoutSecs: 60,
+    preNavigationHooks: [
+        async ({ page }) => {
+            await blockHeavyResources(page);
+        },
+    ],
+} satisfies PlaywrightCrawlerOptions;
+
+/**
+ * Ensure the URL has hl set to the requested language regardless of proxy location.
+ */
+function ensureLanguage(rawUrl: string, hl: string): string {
+    const u = new URL(rawUrl);
+    u.searchParams.set("hl", hl);
+    return u.toString();
+}
+
+// ---------------------------------------------------------------------------
+// Per-place progress, kept across retries of the same place request
+// ---------------------------------------------------------------------------
+interface PlaceRun {
+    startUrl: string;
+    collectedReviews: GoogleReview[];
+    seenIds: Set<string>;
+    hitDateCutoff: boolean;
+    hitKnownReview: boolean;
+    placeDetails: PlaceDetails | null;
+    previousState: PlaceState | null;
+    knownIds: Set<string>;
+    cardStats: Pick<CardParseStats, "cards" | "missing">;
+    rpcReviews: number;     // Reviews read from RPC responses, before filters
+    pageProblem: PlaceStatus | null; // Set when the last attempt hit a block, consent wall or missing place
+    problemMessage: string | null;   // Explains a pageProblem that no thrown error describes
+    startedAt: number;
+    pushedCount: number; // Leading entries of collectedReviews already handed to the sink
+    placePushed: boolean; // placeDetails already handed to the sink
+    mainPassDone: boolean;   // The whole list (not a topic chip's) was scrolled to its end or a limit
+    coverage: ScrapeCoverage | null; // What the whole-list pass read, for change tracking
+    topicsDone: string[];    // Topic chips already scrolled (scrapeReviewTopics)
+}
+
+/** One scroll through the review list: the whole list, or one topic chip's. */
+interface ScrollPass {
+    topic: string | null;
+    seen: Set<string>; // Review IDs read in this pass
+    taken: number;     // Reviews collected or tagged in this pass
+    limit: number;
+    hitDateCutoff: boolean;
+    hitKnownReview: boolean;
+    passedStarRange: boolean;
+    exhausted: boolean; // Scrolled until no more reviews loaded
+}
+
+/**
+ * Retire the session and throw when the page is a block, CAPTCHA or
+ * consent wall, so Crawlee retries with a fresh session and proxy. The
+ * status is kept on `run` for the summary in case every retry hits it.
+ */
+async function throwOnPageProblem(page: Page, session: Session | undefined, run?: Pick<PlaceRun, "pageProblem">): Promise<void> {
+    const problem = await detectPageProblem(page);
+    if (!problem) return;
+    if (run) run.pageProblem = problem.status;
+    session?.retire();
+    throw new Error(`Google served a ${problem.reason} (${problem.status}), retiring session`);
+}
+
+/**
+ * KeyValueStore key for the debug snapshot of a failed request. Crawlee
+ * appends ".jpg" and ".html".
+ */
+function snapshotKey(request: Request): string {
+    const id = request.uniqueKey.replace(/[^a-zA-Z0-9!\-_.'()]/g, "-");
+    return `SNAPSHOT-${request.label ?? "REQUEST"}-${id}`.slice(0, 240);
+}
+
+/**
+ * Run the scraper over `input`: search queries, search URLs and place URLs
+ * go through one crawler, and every record is handed to `options.sink`.
+ * Returns the run summary and selector-health report; saving them is up
+ * to the caller.
+ */
+/**
+ * Throw on input runScraper can't start with. Callers that set up outputs
+ * first (the CLI) check it before creating any files.
+ */
+export function validateInput(input: GoogleScraperInput): void {
+    const { startUrls = [], places = [], searchQueries = [], sortBy = "newest", starRatings = [] } = input;
+    if (!startUrls.length && !places.length && !searchQueries.length) {
+        throw new Error("No startUrls, places or searchQueries provided. Please supply at least one place or search query.");
+    }
+    if (!SORT_ORDERS.includes(sortBy)) {
+        throw new Error(`Unknown sortBy "${sortBy}"; expected one of ${SORT_ORDERS.join(", ")}`);
+    }
+    if (starRatings.some((n) => !Number.isInteger(n) || n < 1 || n > 5)) {
+        throw new Error(`starRatings must only contain whole numbers from 1 to 5, got ${JSON.stringify(starRatings)}`);
+    }
+}
+
+export async function runScraper(input: GoogleScraperInput, options: ScraperOptions): Promise<ScraperResult> {
+    const { sink, proxyConfiguration, config, signal } = options;
+    const {
+        startUrls = [],
+        places = [],
+        maxItems = 100,
+        newerThan,
+        incremental = false,
+        stateStoreName,
+        resetStateFor = [],
+        language = "en",
+        searchQueries = [],
+        searchLocation,
+        maxPlacesPerSearch = 20,
+        expandSearchUrls = false,
+        maxConcurrency = 3,
+        selectorOverrides,
+        minFieldCoverage = 0.8,
+        sortBy = "newest",
+        reviewsQuery,
+        starRatings = [],
+        scrapeReviewerProfiles = false,
+        maxReviewerProfiles = 20,
+        maxReviewsPerReviewer = 50,
+        scrapeReviewTopics = false,
+        maxTopics = 5,
+        maxReviewsPerTopic = 50,
+        menuItems = [],
+        trackChanges = false,
+        snapshotStoreName,
+    } = input;
+
+    validateInput(input);
+
+    if (!isSupportedLanguage(language)) {
+        log.warning(`Language "${language}" has no date grammar or UI labels; supported: ${SUPPORTED_LANGUAGES.join(", ")}`);
+    }
+    const labels = labelsFor(language);
+
+    const starFilter = starRatings.length > 0 ? new Set(starRatings) : null;
+    const query = reviewsQuery?.trim() || null;
+    if (starFilter || query) {
+        log.info(`Review filters: ${[starFilter && `stars ${[...starFilter].join("/")}`, query && `text "${query}"`].filter(Boolean).join(", ")}`);
+    }
+
+    // Selector fallbacks (with input overrides) and the run's selector-health tally
+    const selectors = resolveSelectors(selectorOverrides);
+    const selectorHealth = createSelectorHealth(minFieldCoverage);
+    if (selectorOverrides && Object.keys(selectorOverrides).length > 0) {
+        log.info(`Selector overrides for: ${Object.keys(selectorOverrides).join(", ")}`);
+    }
+
+    // Parse newerThan date cutoff
+    const dateCutoff = newerThan ? new Date(newerThan + "T00:00:00Z") : null;
+    if (dateCutoff) {
+        log.info(`Date cutoff: reviews before ${newerThan} will be excluded, scrolling stops when reached`);
+    }
+
+    if (scrapeReviewTopics) {
+        log.info(`Topic chips: up to ${maxTopics} per place, ${maxReviewsPerTopic} reviews each; reviews are pushed once a place is done`);
+    }
+
+    // Dishes to look for in review text
+    const menu = menuItems.length > 0 ? compileMenu(menuItems) : null;
+    if (menu) {
+        log.info(`Menu matching: ${menu.length} dishes`);
+    }
+
+    if (scrapeReviewerProfiles) {
+        log.info(`Reviewer profiles: up to ${maxReviewerProfiles} profiles, ${maxReviewsPerReviewer} reviews each`);
+    }
+
+    // Incremental mode remembers emitted review IDs per place across runs
+    const stateStore = incremental ? await openStateStore(stateStoreName) : null;
+    if (stateStore) {
+        log.info(`Incremental mode: only reviews not emitted by previous runs will be collected`);
+    }
+
+
+    // Change tracking keeps each place's last-seen reviews across runs
+    const snapshotStore = trackChanges ? await openSnapshotStore(snapshotStoreName) : null;
+    if (snapshotStore) {
+        log.info(`Change tracking: reviews are compared with the previous run's snapshot`);
+    }
+
+    const placeRuns = new Map<string, PlaceRun>();
+    // Page problem of a search or lookup attempt that has not got past the problem check
+    const searchAttempts = new Map<string, Pick<PlaceRun, "pageProblem">>();
+    // Keyed by request (or input, for one that never got a request) so a rerun of finalizePlace replaces its entry
+    const placeSummaries = new Map<string, PlaceSummary>();
+    const menuReports = new Map<string, MenuReport>();
+
+    function getPlaceRun(request: Request): PlaceRun {
+        let run = placeRuns.get(request.uniqueKey);
+        if (!run) {
+            run = {
+                startUrl: String(request.userData.startUrl ?? request.url),
+                collectedReviews: [],
+                seenIds: new Set(),
+                hitDateCutoff: false,
+                hitKnownReview: false,
+                placeDetails: null,
+                previousState: null,
+                knownIds: new Set(),
+                cardStats: { cards: 0, missing: { name: 0, date: 0, text: 0 } },
+                rpcReviews: 0,
+                pageProblem: null,
+                problemMessage: null,
+                startedAt: Date.now(),
+                pushedCount: 0,
+                placePushed: false,
+                mainPassDone: false,
+                coverage: null,
+                topicsDone: [],
+            };
+            placeRuns.set(request.uniqueKey, run);
+        }
+        return run;
+    }
+
+    /** Whether `run` still has a list to scroll: the whole one, or a topic chip's. */
+    function hasPendingPasses(run: PlaceRun): boolean {
+        if (!run.mainPassDone) return true;
+        if (!scrapeReviewTopics) return false;
+        const topics = run.placeDetails?.reviewTopics.slice(0, maxTopics) ?? [];
+        return topics.some(({ topic }) => !run.topicsDone.includes(topic));
+    }
+
+    /**
+     * Place request for the shared queue. The unique key is the place itself,
+     * so the same restaurant reached from two searches is scraped once.
+     * `startUrl` is the input as given; with `expectedName`, the place must
+     * match it before reviews are scraped.
+     */
+    function placeRequest(rawUrl: string, startUrl = rawUrl, expectedName: string | null = null): RequestOptions {
+        return {
+            url: ensureLanguage(rawUrl, language),
+            uniqueKey: placeKey(rawUrl),
+            label: LABELS.PLACE,
+            userData: { startUrl, expectedName },
+        };
+    }
+
+    /** Start tracking a new attempt at a search or lookup request. */
+    function startSearchAttempt(request: Request): Pick<PlaceRun, "pageProblem"> {
+        const attempt = { pageProblem: null };
+        searchAttempts.set(request.uniqueKey, attempt);
+        return attempt;
+    }
+
+    /**
+     * Summary entry for an input that never reached a place page: it could
+     * not be resolved, its lookup was ambiguous, or its search failed.
+     * `key` is the request's unique key, or the input for one never queued.
+     */
+    function recordUnresolved(key: string, startUrl: string, status: PlaceStatus, error: string): void {
+        log.error(`${startUrl}: ${error}`);
+        placeSummaries.set(key, {
+            startUrl,
+            placeId: null,
+            placeName: null,
+            status,
+            error,
+            reviewsCollected: 0,
+            hitDateCutoff: false,
+            hitKnownReview: false,
+            durationSecs: 0,
+            stats: computeReviewStats([]),
+        });
+    }
+
+    // Profiles queued so far; reserved before adding so concurrent places can't overshoot
+    let reviewerProfilesQueued = 0;
+
+    /**
+     * Queue the profiles of a place's reviewers, up to maxReviewerProfiles per
+     * run. Each reviewer is visited once even if they reviewed several places.
+     */
+    async function enqueueReviewerProfiles(crawler: PlaywrightCrawler, reviews: GoogleReview[]): Promise<void> {
+        const requests: RequestOptions[] = [];
+        for (const review of reviews) {
+            if (reviewerProfilesQueued + requests.length >= maxReviewerProfiles) break;
+            if (!review.reviewerId) continue;
+            requests.push({
+                url: reviewerProfileUrl(review.reviewerId, language),
+                uniqueKey: `reviewer:${review.reviewerId}`,
+                label: LABELS.REVIEWER,
+                userData: { reviewerId: review.reviewerId, foundViaPlaceId: review.placeId },
+            });
+        }
+        if (requests.length === 0) return;
+
+        reviewerProfilesQueued += requests.length;
+        const { addedRequests } = await crawler.addRequests(requests, { waitForAllRequestsToBeAdded: true });
+        const duplicates = addedRequests.filter((r) => r.wasAlreadyPresent).length;
+        reviewerProfilesQueued -= duplicates;
+        log.info(`  Queued ${requests.length - duplicates} reviewer profiles (${reviewerProfilesQueued}/${maxReviewerProfiles})`);
+    }
+
+    /**
+     * Push a place's details and reviews, persist its incremental state and
+     * record its summary. Runs after success or after the final failed retry
+     * (with that retry's `error`). A rerun after a failed push
+     * replaces the summary and skips what was already pushed.
+     */
+    async function finalizePlace(request: Request, error?: Error): Promise<void> {
+        const run = getPlaceRun(request);
+        const { placeDetails, collectedReviews } = run;
+        const message = error?.message ?? run.problemMessage;
+
+        const status = resolvePlaceStatus({
+            pageProblem: run.pageProblem,
+            error: message,
+            reviewsCollected: collectedReviews.length,
+            hitDateCutoff: run.hitDateCutoff,
+            hitKnownReview: run.hitKnownReview,
+        });
+        placeSummaries.set(request.uniqueKey, {
+            startUrl: run.startUrl,
+            placeId: placeDetails?.placeId ?? null,
+            placeName: placeDetails?.name ?? null,
+            status,
+            error: message,
+            reviewsCollected: collectedReviews.length,
+            hitDateCutoff: run.hitDateCutoff,
+            hitKnownReview: run.hitKnownReview,
+            durationSecs: Math.round((Date.now() - run.startedAt) / 1000),
+            stats: computeReviewStats(collectedReviews),
+        });
+
+        if (placeDetails && !run.placePushed) {
+            await sink.pushPlace(placeDetails);
+            run.placePushed = true;
+        }
+
+        if (menu && placeDetails) {
+            const report = buildMenuReport(menu, placeDetails, collectedReviews);
+            menuReports.set(request.uniqueKey, report);
+            const top = report.items.filter((i) => i.mentions > 0).slice(0, 3);
+            log.info(`  Menu mentions in ${report.reviewsWithMentions}/${report.reviewsScanned} reviews` +
+                (top.length > 0 ? `, top: ${top.map((i) => `${i.name} (${i.mentions})`).join(", ")}` : ""));
+        }
+
+        if (collectedReviews.length > 0) {
+            log.info(`Collected ${collectedReviews.length} reviews for ${placeDetails?.name ?? run.startUrl}`);
+            await pushPendingReviews(run);
+        } else {
+            log.warning(`No reviews collected for ${request.url} (${status})`);
+        }
+
+        // Only persist once the place was reached; the state key depends on its ID
+        if (stateStore && placeDetails) {
+            await savePlaceState(
+                stateStore,
+                placeStateKey(placeDetails, run.startUrl),
+                placeDetails,
+                run.previousState,
+                collectedReviews.map((r) => r.reviewId),
+            );
+        }
+
+        if (snapshotStore && placeDetails) {
+            const key = placeStateKey(placeDetails, run.startUrl);
+            const previous = await loadReviewSnapshots(snapshotStore, key);
+            const { events, record } = diffReviews(placeDetails, previous, collectedReviews, error ? null : run.coverage);
+            if (!previous) {
+                log.info(`  No earlier snapshot, recording ${collectedReviews.length} reviews as the baseline`);
+            } else if (events.length > 0) {
+                const counts = new Map<string, number>();
+                for (const e of events) counts.set(e.type, (counts.get(e.type) ?? 0) + 1);
+                log.info(`  Review changes: ${[...counts].map(([type, n]) => `${n} ${type}`).join(", ")}`);
+                await sink.pushChangeEvents?.(events);
+            }
+            await saveReviewSnapshots(snapshotStore, key, record);
+        }
+
+        selectorHealth.places.push({
+            url: run.startUrl,
+            placeName: placeDetails?.name ?? null,
+            reviewsCount: placeDetails?.reviewsCount ?? null,
+            cardsParsed: run.cardStats.cards,
+            rpcReviews: run.rpcReviews,
+            missing: run.cardStats.missing,
+        });
+        // Reviews are listed but nothing on the page could be read: the card or stars selector broke
+        if (status === "no-reviews" && (placeDetails?.reviewsCount ?? 0) > 0 && run.cardStats.cards === 0 && run.rpcReviews === 0) {
+            log.error(`  ${placeDetails?.name ?? run.startUrl} lists ${placeDetails?.reviewsCount} reviews but none could be read`);
+            selectorHealth.unreadPlaces.push(run.startUrl);
+        }
+
+        // Only now: a retry after a failed push needs the run to finish it
+        placeRuns.delete(request.uniqueKey);
+    }
+
+    /**
+     * Hand the reviews collected since the last push to the sink, so big
+     * places stream out in batches instead of all at the end.
+     */
+    async function pushPendingReviews(run: PlaceRun): Promise<void> {
+        const batch = run.collectedReviews.slice(run.pushedCount);
+        if (batch.length === 0) return;
+        await sink.pushReviews(batch);
+        run.pushedCount += batch.length;
+    }
+
+    const router = createPlaywrightRouter();
+
+    // ---------------------------------------------------------------------------
+    // Search pages: enqueue the listed places into the shared queue. Search
+    // queries take up to maxPlacesPerSearch; a search URL given as a place
+    // takes only the top result unless expandSearchUrls is on
+    // ---------------------------------------------------------------------------
+    router.addHandler(LABELS.SEARCH, async ({ page, request, session, crawler }) => {
+        const attempt = startSearchAttempt(request);
+        log.info(`Searching ${request.url}`);
+        await page.waitForSelector('div[role="feed"], h1, form[action*="consent"]', { timeout: 15000 }).catch(() => {});
+        await dismissConsent(page);
+        await throwOnPageProblem(page, session, attempt);
+        searchAttempts.delete(request.uniqueKey);
+
+        const results = await collectSearchResults(page, Number(request.userData.maxPlaces ?? maxPlacesPerSearch));
+        const { addedRequests } = await crawler.addRequests(results.map((r) => placeRequest(r.url)), { waitForAllRequestsToBeAdded: true });
+        const added = addedRequests.filter((r) => !r.wasAlreadyPresent).length;
+        log.info(`  ${results.length} places found, ${added} new`);
+    });
+
+    // ---------------------------------------------------------------------------
+    // Lookups: a name + address search that must single out one place
+    // ---------------------------------------------------------------------------
+    router.addHandler(LABELS.LOOKUP, async ({ page, request, session, crawler }) => {
+        const startUrl = String(request.userData.startUrl);
+        const expectedName = String(request.userData.expectedName);
+        const attempt = startSearchAttempt(request);
+        log.info(`Looking up "${startUrl}"`);
+        await page.waitForSelector('div[role="feed"], h1, form[action*="consent"]', { timeout: 15000 }).catch(() => {});
+        await dismissConsent(page);
+        await throwOnPageProblem(page, session, attempt);
+        searchAttempts.delete(request.uniqueKey);
+
+        const results = await collectSearchResults(page, LOOKUP_MAX_RESULTS);
+        const matches = results.filter((r) => r.name && namesMatch(expectedName, r.name));
+        const distinct = [...new Map(matches.map((r) => [placeKey(r.url), r])).values()];
+
+        if (distinct.length === 1) {
+            log.info(`  Resolved to "${distinct[0].name}"`);
+            await crawler.addRequests([placeRequest(distinct[0].url, startUrl, expectedName)]);
+        } else if (distinct.length === 0) {
+            const listed = results.map((r) => `"${r.name ?? "?"}"`).join(", ") || "no results";
+            recordUnresolved(request.uniqueKey, startUrl, "place-not-found", `No place named "${expectedName}" found (search listed ${listed})`);
+        } else {
+            const listed = distinct.map((r) => `"${r.name}" (${r.url})`).join(", ");
+            recordUnresolved(request.uniqueKey, startUrl, "ambiguous", `${distinct.length} places match "${expectedName}": ${listed}. Give a place ID, CID or URL instead`);
+        }
+    });
+
+    // ---------------------------------------------------------------------------
+    // Place pages: scrape reviews, then push everything for the place
+    // ---------------------------------------------------------------------------
+    router.addHandler(LABELS.PLACE, async ({ page, request, session, crawler }) => {
+        const run = getPlaceRun(request);
+        if (hasPendingPasses(run)) {
+            await scrapePlace(page, request, session, run);
+        }
+        await finalizePlace(request);
+        if (scrapeReviewerProfiles) await enqueueReviewerProfiles(crawler, run.collectedReviews);
+    });
+
+    // ---------------------------------------------------------------------------
+    // Reviewer profiles: the reviewer's other reviews, about any place
+    // ---------------------------------------------------------------------------
+    router.addHandler(LABELS.REVIEWER, async ({ page, request, session }) => {
+        log.info(`Reviewer profile ${request.url}`);
+        await page.waitForSelector('h1, form[action*="consent"]', { timeout: 15000 }).catch(() => {});
+        await dismissConsent(page);
+        await throwOnPageProblem(page, session);
+
+        const reviews = await scrapeReviewerProfile(page, {
+            selectors,
+            labels,
+            language,
+            maxReviews: maxReviewsPerReviewer,
+            reviewerId: String(request.userData.reviewerId),
+            foundViaPlaceId: request.userData.foundViaPlaceId ?? null,
+        });
+        log.info(`  ${reviews.length} reviews on profile ${request.userData.reviewerId}`);
+        await sink.pushReviewerReviews(reviews);
+    });
+
+    /**
+     * Scrape one place's reviews into `run`. Whatever it collects survives a
+     * thrown error, so the next retry continues from there.
+     */
+    async function scrapePlace(page: Page, request: Request, session: Session | undefined, run: PlaceRun): Promise<void> {
+        const { collectedReviews, seenIds } = run;
+        run.pageProblem = null;
+
+        // Review pages fetched by Maps itself; parsed once the place is known
+        const rpcBodies: Promise<string | null>[] = [];
+        page.on("response", (res) => {
+            if (isReviewRpcUrl(res.url())) rpcBodies.push(res.text().catch(() => null));
+        });
+
+        log.info(`Navigating to ${request.url}`);
+        await page.goto(request.url, { waitUntil: "domcontentloaded", timeout: 60000 });
+        await page.waitForSelector('h1, form[action*="consent"]', { timeout: 15000 }).catch(() => {});
+
+        // -----------------------------------------------------------------
+        // Dismiss cookie consent if present
+        // -----------------------------------------------------------------
+        await dismissConsent(page);
+
+        await throwOnPageProblem(page, session, run);
+
+        // -----------------------------------------------------------------
+        // Capture place metadata before leaving the Overview tab
+        // -----------------------------------------------------------------
+        await page.waitForSelector("h1", { timeout: 15000 }).catch(() => {
+            log.warning("  Timed out waiting for place title");
+        });
+        if (!run.placeDetails) {
+            const isPlace = page.url().includes("/maps/place/") || (await page.$("h1.DUwDvf")) !== null;
+            if (!isPlace) {
+                log.error(`  ${request.url} did not open a place (landed on ${page.url()})`);
+                run.pageProblem = "place-not-found";
+                return;
+            }
+
+            const placeDetails = await extractPlaceDetails(page);
+            const expectedName = request.userData.expectedName as string | null | undefined;
+            if (expectedName && !(placeDetails.name && namesMatch(expectedName, placeDetails.name))) {
+                run.pageProblem = "name-mismatch";
+                run.problemMessage = `Expected "${expectedName}" but ${run.startUrl} opened "${placeDetails.name ?? "?"}" (${placeDetails.placeId ?? placeDetails.url})`;
+                log.error(`  ${run.problemMessage}`);
+                return;
+            }
+            run.placeDetails = placeDetails;
+            log.info(`  Place: "${placeDetails.name}" (${placeDetails.placeId ?? "no ID"}), ${placeDetails.rating ?? "?"}★ from ${placeDetails.reviewsCount ?? "?"} reviews`);
+
+            if (stateStore) {
+                const key = placeStateKey(placeDetails, run.startUrl);
+                if (isResetRequested(resetStateFor, placeDetails, run.startUrl)) {
+                    log.info(`  Resetting incremental state "${key}", all reviews will be collected again`);
+                } else {
+                    run.previousState = await loadPlaceState(stateStore, key);
+                    run.knownIds = new Set(run.previousState?.reviewIds ?? []);
+                    log.info(`  Incremental state "${key}": ${run.knownIds.size} known reviews`);
+                }
+            }
+        }
+        const place = run.placeDetails;
+
+        // -----------------------------------------------------------------
+        // Navigate to Reviews tab, search and sort
+        // -----------------------------------------------------------------
+        await openReviewsTab(page, labels);
+
+        // Wait for review cards to appear (up to 15s)
+        const cardsShown = await page.waitForSelector(selectors.card.join(", "), { timeout: 15000 }).then(() => true, () => {
+            log.warning("  Timed out waiting for review cards after tab click");
+            return false;
+        });
+        // A sign-in or consent wall can also appear once the tab is opened
+        if (!cardsShown) await throwOnPageProblem(page, session, run);
+
+        // Google's own star histogram and the topic chips sit above the list
+        const overview = await extractReviewsOverview(page, selectors);
+        recordMatch(selectorHealth, "ratingHistogramRow", overview.histogramSelector);
+        recordMatch(selectorHealth, "topicChip", overview.chipSelector);
+        place.ratingDistribution = overview.ratingDistribution ?? place.ratingDistribution;
+        if (overview.reviewTopics.length > 0) place.reviewTopics = overview.reviewTopics;
+        if (place.reviewTopics.length > 0) {
+            log.info(`  Topics: ${place.reviewTopics.map((t) => `${t.topic} (${t.mentions})`).join(", ")}`);
+        }
+
+        // Without the search box, fall back to matching the query against the text ourselves
+        let localQuery: string | null = null;
+        if (query) {
+            const searched = await searchReviews(page, selectors, labels, query, () => {
+                rpcBodies.length = 0;
+            });
+            if (!searched) {
+                log.warning(`  No "Search reviews" box, filtering reviews for "${query}" locally`);
+                localQuery = query.toLowerCase();
+            }
+        }
+
+        // Anything fetched before the menu opens is in the old sort order
+        const { buttonSelector, activeSort } = await sortReviews(page, selectors, labels, sortBy, () => {
+            rpcBodies.length = 0;
+        });
+        recordMatch(selectorHealth, "sortButton", buttonSelector);
+        // Known reviews and the date cutoff only end the scroll when newer reviews come first
+        const sortedBy = activeSort ?? sortBy;
+        const newestFirst = sortedBy === "newest";
+
+        // -----------------------------------------------------------------
+        // DOM diagnostic — identify review card selector
+        // -----------------------------------------------------------------
+        const reviewSelector = await findReviewCardSelector(page, selectors);
+        log.info(`  Review card selector: "${reviewSelector.selector}" (${reviewSelector.count} found)`);
+        recordMatch(selectorHealth, "card", reviewSelector.selector !== "none" ? reviewSelector.selector : null);
+        if (reviewSelector.count === 0 && reviewSelector.selector === "none") {
+            await logCardDiagnostics(page, selectors);
+        }
+
+        // -----------------------------------------------------------------
+        // Extraction helpers — cards are parsed as they load so the scroll
+        // loop can stop at the date cutoff instead of overshooting it
+        // -----------------------------------------------------------------
+        const cardSelector = reviewSelector.selector !== "none" ? reviewSelector.selector : selectors.card[0];
+        const freshCardSelector = `${cardSelector}:not([data-tastly-seen])`;
+
+        /** Parse the review RPC responses received since the last call. */
+        const drainRpcReviews = async (): Promise<GoogleReview[]> => {
+            const reviews: GoogleReview[] = [];
+            for (const body of await Promise.all(rpcBodies.splice(0))) {
+                if (!body) continue;
+                try {
+                    reviews.push(...parseReviewRpcBody(body, { placeId: place.placeId, placeName: place.name, placeUrl: place.url }, language));
+                } catch (err) {
+                    log.warning(`  Could not parse review RPC response: ${err}`);
+                }
+            }
+            run.rpcReviews += reviews.length;
+            return reviews;
+        };
+
+        let rpcCollected = 0;
+        let domCollected = 0;
+        const collectedById = new Map(collectedReviews.map((r) => [r.reviewId, r]));
+
+        /**
+         * Date-check, filter and collect a batch of reviews; flags the cutoffs
+         * on `pass`. Under a topic chip, reviews we already have are tagged
+         * with the topic instead of being collected again.
+         */
+        const collect = (reviews: GoogleReview[], source: "rpc" | "dom", pass: ScrollPass) => {
+            for (const review of reviews) {
+                if (pass.taken >= pass.limit) break;
+                const rid = review.reviewId;
+                if (pass.seen.has(rid)) continue;
+                pass.seen.add(rid);
+
+                const existing = pass.topic ? collectedById.get(rid) : undefined;
+                if (existing && pass.topic) {
+                    if (!existing.topics.includes(pass.topic)) existing.topics.push(pass.topic);
+                    pass.taken++;
+                    continue;
+                }
+
+                // Sorted by newest, so everything past a known review was emitted before
+                if (run.knownIds.has(rid)) {
+                    if (newestFirst) pass.hitKnownReview = true;
+                    continue;
+                }
+
+                // Date cutoff check (undated reviews can't be placed, so they are kept)
+                if (dateCutoff && review.publishedAtDate) {
+                    const revDate = new Date(review.publishedAtDate);
+                    if (revDate < dateCutoff) {
+                        if (newestFirst) pass.hitDateCutoff = true;
+                        continue;
+                    }
+                }
+
+                if (starFilter && !starFilter.has(review.stars)) {
+                    // Sorted by rating, so once past the wanted stars nothing else will match
+                    if (sortedBy === "lowestRating" && review.stars > Math.max(...starFilter)) pass.passedStarRange = true;
+                    if (sortedBy === "highestRating" && review.stars < Math.min(...starFilter)) pass.passedStarRange = true;
+                    continue;
+                }
+                if (localQuery && ![review.text, review.textTranslated].some((t) => t?.toLowerCase().includes(localQuery))) {
+                    continue;
+                }
+
+                if (pass.topic) review.topics = [pass.topic];
+                if (menu) review.mentionedItems = matchMenuItems(menu, [review.text, review.textTranslated]);
+                seenIds.add(rid);
+                collectedReviews.push(review);
+                collectedById.set(rid, review);
+                pass.taken++;
+                if (source === "rpc") rpcCollected++;
+                else domCollected++;
+            }
+        };
+
+        /**
+         * Scroll the reviews panel, extracting newly loaded cards each time.
+         * Parsed cards are removed and their reviews pushed as we go, so
+         * memory stays flat however far down the list we get. With topic
+         * chips on, pushing waits for the place to finish, since a review
+         * can still pick up topics from later chips.
+         */
+        const scrollPass = async (pass: ScrollPass, resumed: boolean) => {
+            const maxScrollAttempts = Math.ceil(((pass.limit + pass.seen.size) * 2) / 10) + 5;
+            let noProgressCount = 0;
+
+            for (let scrollAttempt = 0; ; scrollAttempt++) {
+                const rpcReviews = await drainRpcReviews();
+                collect(rpcReviews, "rpc", pass);
+                if (rpcReviews.length > 0 || resumed) {
+                    await page.evaluate(markCardsSeen, { sel: cardSelector, ids: [...pass.seen] });
+                }
+
+                // DOM fallback for cards the RPC responses did not cover
+                await expandCards(page, freshCardSelector, selectors, labels);
+                const { reviews: domReviews, stats } = await extractNewCards(page, cardSelector, selectors);
+                mergeCardStats(selectorHealth, stats);
+                run.cardStats.cards += stats.cards;
+                run.cardStats.missing.name += stats.missing.name;
+                run.cardStats.missing.date += stats.missing.date;
+                run.cardStats.missing.text += stats.missing.text;
+                collect(domReviews.map((raw) => toGoogleReview(raw, place, language)), "dom", pass);
+
+                const removed = await page.evaluate(removeSeenCards, { sel: cardSelector, keep: 3 });
+                if (!scrapeReviewTopics) await pushPendingReviews(run);
+
+                if (pass.hitDateCutoff) {
+                    log.info(`  Date cutoff reached, stopping scroll`);
+                    break;
+                }
+                if (pass.hitKnownReview) {
+                    log.info(`  Reached previously emitted reviews, stopping scroll`);
+                    break;
+                }
+                if (pass.passedStarRange) {
+                    log.info(`  Past the requested star ratings, stopping scroll`);
+                    break;
+                }
+                if (pass.taken >= pass.limit) {
+                    log.info(`  Collected ${pass.taken} reviews, stopping scroll`);
+                    break;
+                }
+                if (scrollAttempt >= maxScrollAttempts) {
+                    log.info(`  Gave up after ${scrollAttempt} scrolls`);
+                    break;
+                }
+
+                if (removed === 0 && rpcReviews.length === 0) {
+                    noProgressCount++;
+                    if (noProgressCount >= 3) {
+                        log.info(`  No new reviews after ${noProgressCount} scrolls (${pass.seen.size} seen)`);
+                        pass.exhausted = true;
+                        break;
+                    }
+                } else {
+                    noProgressCount = 0;
+                    if (scrollAttempt % 5 === 0) {
+                        log.info(`  Scrolling... ${pass.seen.size} reviews seen, ${pass.taken} collected`);
+                    }
+                }
+
+                const scrollSelector = await scrollReviewsPanel(page, selectors);
+                if (scrollAttempt === 0) recordMatch(selectorHealth, "scrollContainer", scrollSelector);
+                await waitForFreshCards(page, freshCardSelector);
+            }
+        };
+
+        // -----------------------------------------------------------------
+        // The whole list. A retry starts from the top, but cards seen by
+        // earlier attempts are dropped unparsed, so it fast-forwards to
+        // where the last one stopped
+        // -----------------------------------------------------------------
+        if (!run.mainPassDone) {
+            const resumed = seenIds.size > 0;
+            if (resumed) {
+                log.info(`  Resuming from checkpoint: ${collectedReviews.length} reviews collected, ${seenIds.size} seen`);
+            }
+            const pass: ScrollPass = {
+                topic: null,
+                seen: seenIds,
+                taken: collectedReviews.length,
+                limit: maxItems,
+                hitDateCutoff: run.hitDateCutoff,
+                hitKnownReview: run.hitKnownReview,
+                passedStarRange: false,
+                exhausted: false,
+            };
+            await scrollPass(pass, resumed);
+            run.hitDateCutoff = pass.hitDateCutoff;
+            run.hitKnownReview = pass.hitKnownReview;
+            run.mainPassDone = true;
+
+            // Filters and skipped known reviews hide reviews that are still there
+            const unfiltered = !starFilter && !query && run.knownIds.size === 0;
+            const dates = collectedReviews.map((r) => r.publishedAtDate).filter((d): d is string => !!d).sort();
+            // A scroll that stalls looks like the end of the list, so only trust it once it saw every review Google counts
+            const sawAll = place.reviewsCount !== null && pass.seen.size >= place.reviewsCount;
+            run.coverage = {
+                complete: unfiltered && !dateCutoff && pass.exhausted && sawAll,
+                since: unfiltered && newestFirst ? dates[0] ?? null : null,
+            };
+        }
+
+        // -----------------------------------------------------------------
+        // Each topic chip's list, tagging the reviews found under it
+        // -----------------------------------------------------------------
+        if (scrapeReviewTopics) {
+            for (const { topic } of place.reviewTopics.slice(0, maxTopics)) {
+                if (run.topicsDone.includes(topic)) continue;
+                const selected = await selectTopicChip(page, selectors, topic, () => {
+                    rpcBodies.length = 0;
+                });
+                if (selected) {
+                    log.info(`  Topic "${topic}"`);
+                    await waitForFreshCards(page, freshCardSelector);
+                    await scrollPass({
+                        topic,
+                        seen: new Set(),
+                        taken: 0,
+                        limit: maxReviewsPerTopic,
+                        hitDateCutoff: false,
+                        hitKnownReview: false,
+                        passedStarRange: false,
+                        exhausted: false,
+                    }, false);
+                } else {
+                    log.warning(`  Topic chip "${topic}" not found, skipping`);
+                }
+                run.topicsDone.push(topic);
+            }
+        }
+
+        log.info(`  Parsed ${rpcCollected} reviews from RPC responses, ${domCollected} from the DOM`);
+        selectorHealth.rpcReviews += rpcCollected;
+        log.info(`  Total collected: ${collectedReviews.length}/${maxItems}${run.hitDateCutoff ? " [CUTOFF]" : ""}${run.hitKnownReview ? " [KNOWN]" : ""}`);
+    }
+
+    // ---------------------------------------------------------------------------
+    // One crawler for all searches and places
+    // ---------------------------------------------------------------------------
+    const crawler = new PlaywrightCrawler({
+        ...browserCrawlerOptions,
+        proxyConfiguration,
+        maxConcurrency,
+        // Roughly 3 s per page of 10 reviews on top of the fixed setup time
+        requestHandlerTimeoutSecs: 300 + Math.ceil(maxItems / 10) * 3,
+        requestHandler: router,
+
+        async failedRequestHandler({ request, saveSnapshot }, error) {
+            log.error(`${request.url} failed after ${request.retryCount} retries: ${error.message}`);
+
+            // Keep what the browser last saw; the page is gone if navigation itself failed
+            const key = snapshotKey(request);
+            await saveSnapshot({ key }).then(
+                () => log.info(`  Saved debug snapshot as ${key}.jpg / ${key}.html`),
+                (err) => log.warning(`  Could not save debug snapshot: ${err}`),
+            );
+
+            if (request.label === LABELS.PLACE) await finalizePlace(request, error);
+            if (request.label === LABELS.SEARCH || request.label === LABELS.LOOKUP) {
+                // A problem is only still tracked when the last attempt stopped at it
+                const status = searchAttempts.get(request.uniqueKey)?.pageProblem ?? "failed";
+                recordUnresolved(request.uniqueKey, String(request.userData.startUrl ?? request.url), status, error.message);
+            }
+        },
+    }, config);
+
+    // ---------------------------------------------------------------------------
+    // Resolve place IDs, CIDs, short links and names to start requests
+    // ---------------------------------------------------------------------------
+    const targets: NormalizedPlace[] = [];
+    for (const entry of [...startUrls.map((s) => s.url), ...places]) {
+        const placeInput = typeof entry === "string" ? parsePlaceInputString(entry) : entry;
+        try {
+            targets.push(await normalizePlaceInput(placeInput));
+        } catch (err) {
+            const input = typeof entry === "string" ? entry : JSON.stringify(entry);
+            recordUnresolved(input, input, "place-not-found", (err as Error).message);
+        }
+    }
+    const urlSearchPlaces = expandSearchUrls ? maxPlacesPerSearch : 1;
+    const queryTargets = searchQueries.map((q): NormalizedPlace => (
+        { kind: "search", url: buildSearchUrl(q, searchLocation), expectedName: null, source: q }
+    ));
+
+    const abortCrawl = () => void crawler.autoscaledPool?.abort();
+    signal?.addEventListener("abort", abortCrawl, { once: true });
+    try {
+        if (!signal?.aborted) {
+            await crawler.run([...targets, ...queryTargets].map((t): RequestOptions => {
+                if (t.kind === "place") return placeRequest(t.url, t.source, t.expectedName);
+                return {
+                    url: ensureLanguage(t.url, language),
+                    label: t.kind === "lookup" ? LABELS.LOOKUP : LABELS.SEARCH,
+                    userData: {
+                        startUrl: t.source,
+                        expectedName: t.expectedName,
+                        maxPlaces: queryTargets.includes(t) ? maxPlacesPerSearch : urlSearchPlaces,
+                    },
+                };
+            }));
+        }
+    } finally {
+        signal?.removeEventListener("abort", abortCrawl);
+    }
+
+    // ---------------------------------------------------------------------------
+    // Run summary and selector health
+    // ---------------------------------------------------------------------------
+    const summary = buildRunSummary([...placeSummaries.values()]);
+    log.info(`Run summary: ${summary.totals.places} places, ${summary.totals.reviewsCollected} reviews, ` +
+        Object.entries(summary.totals.byStatus).map(([status, n]) => `${n} ${status}`).join(", "));
+
+    finalizeSelectorHealth(selectorHealth);
+    const { coverage } = selectorHealth;
+    log.info(`Selector health: ${selectorHealth.cardsParsed} DOM cards, coverage name ${formatShare(coverage.name)}, date ${formatShare(coverage.date)}, text ${formatShare(coverage.text)}`);
+
+    return { summary, selectorHealth, menuReports: [...menuReports.values()] };
+}
+
+/** Place outcomes a library caller gets reviews back for; any other status throws. */
+const SCRAPED_STATUSES: PlaceStatus[] = ["ok", "no-reviews"];
+
+/** Reviews iteratePlaceReviews holds for its consumer before the scraper has to wait. */
+const MAX_QUEUED_REVIEWS = 200;
+
+/**
+ * Stream the reviews of one place as they are collected. Runs in its own
+ * in-memory request queue, so repeated calls in one process don't see each
+ * other's requests. Debug snapshots are kept in memory only.
+ *
+ * When the place ends blocked, consent-walled, not found or failed, this
+ * throws after yielding whatever was collected; the error's `cause` is the
+ * place's PlaceSummary.
+ *
+ * Scraping waits while the consumer is behind, and stops when the consumer
+ * stops early (a `break` out of `for await`).
+ */
+export async function* iteratePlaceReviews(url: string, options: PlaceReviewsOptions = {}): AsyncGenerator<GoogleReview> {
+    const { proxyUrls, ...input } = options;
+    const queue: GoogleReview[] = [];
+    const stop = new AbortController();
+    // Resolves the consumer's wait for reviews, and the scraper's wait for room
+    let wake: (() => void) | null = null;
+    let drained: (() => void) | null = null;
+    let done = false;
+    let failure: unknown = null;
+    const notify = () => {
+        wake?.();
+        wake = null;
+    };
+    const release = () => {
+        drained?.();
+        drained = null;
+    };
+
+    const run = runScraper({ ...input, startUrls: [{ url }] }, {
+        proxyConfiguration: proxyUrls?.length ? new ProxyConfiguration({ proxyUrls }) : undefined,
+        config: new Configuration({ persistStorage: false }),
+        signal: stop.signal,
+        sink: {
+            async pushReviews(reviews) {
+                queue.push(...reviews);
+                notify();
+                while (queue.length >= MAX_QUEUED_REVIEWS && !stop.signal.aborted) {
+                    await new Promise<void>((resolve) => {
+                        drained = resolve;
+                    });
+                }
+            },
+            async pushPlace() {},
+            async pushReviewerReviews() {},
+        },
+    }).then(
+        ({ summary }) => { done = true; notify(); return summary; },
+        (err) => { failure = err; done = true; notify(); return null; },
+    );
+
+    try {
+        while (queue.length > 0 || !done) {
+            if (queue.length > 0) {
+                const review = queue.shift()!;
+                if (queue.length < MAX_QUEUED_REVIEWS) release();
+                yield review;
+                continue;
+            }
+            await new Promise<void>((resolve) => {
+                wake = resolve;
+            });
+        }
+    } finally {
+        // No-op after a full run; after an early return it shuts the crawler down
+        stop.abort();
+        release();
+        await run;
+    }
+    const summary = await run;
+    if (failure) throw failure;
+
+    const failed = summary?.places.find((p) => !SCRAPED_STATUSES.includes(p.status));
+    if (failed) {
+        throw new Error(`Could not scrape ${failed.startUrl} (${failed.status})${failed.error ? `: ${failed.error}` : ""}`, { cause: failed });
+    }
+}
+
+/**
+ * Scrape the reviews of one place, e.g.
+ * `await scrapePlaceReviews(url, { maxItems: 50, newerThan: "2024-01-01" })`.
+ * Throws like iteratePlaceReviews when the place could not be scraped.
+ */
+export async function scrapePlaceReviews(url: string, options: PlaceReviewsOptions = {}): Promise<GoogleReview[]> {
+    const reviews: GoogleReview[] = [];
+    for await (const review of iteratePlaceReviews(url, options)) reviews.push(review);
+    return reviews;
+}
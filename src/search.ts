@@ -0,0 +1,112 @@
+/**
+ * Search-results mode.
+ *
+ * A Maps search renders its results in a lazily loaded feed. We scroll the
+ * feed until enough places are listed, then hand their /maps/place/ URLs to
+ * the review scraper. When a query matches a single place, Maps opens it
+ * directly and the current URL is that place.
+ */
+
+import { log } from "apify";
+import type { Page } from "playwright";
+import { parseFeatureId } from "./place.js";
+
+export function isSearchUrl(url: string): boolean {
+    return url.includes("/maps/search/");
+}
+
+/**
+ * Build a Maps search URL from a free-text query and an optional location.
+ */
+export function buildSearchUrl(query: string, location?: string): string {
+    const text = [query, location].map((s) => s?.trim()).filter(Boolean).join(" ");
+    return `https://www.google.com/maps/search/${encodeURIComponent(text).replace(/%20/g, "+")}`;
+}
+
+/** One listed place: its URL and the name shown in the results. */
+export interface SearchResult {
+    url: string;
+    name: string | null;
+}
+
+/**
+ * Key used to recognise the same place across queries: the feature ID when
+ * the URL has one, then a CID or place ID parameter, otherwise the URL path.
+ */
+export function placeKey(url: string): string {
+    const fid = parseFeatureId(url);
+    if (fid) return fid;
+    const u = new URL(url);
+    const cid = u.searchParams.get("cid");
+    if (cid) return `cid:${cid}`;
+    const q = u.searchParams.get("q");
+    if (q?.startsWith("place_id:")) return q;
+    return `${u.hostname}${decodeURIComponent(u.pathname)}`;
+}
+
+/** Each result's link, labelled with the place name. */
+const RESULT_LINK = 'div[role="feed"] a[href*="/maps/place/"]';
+
+/** "You've reached the end of the list." */
+const END_OF_LIST = 'div[role="feed"] span.HlvSq, div[role="feed"] p.fontBodyMedium > span > span';
+
+/**
+ * Scroll the results feed of the current search page and return up to
+ * `maxPlaces` places in result order.
+ */
+export async function collectSearchResults(page: Page, maxPlaces: number): Promise<SearchResult[]> {
+    if (page.url().includes("/maps/place/")) {
+        log.info("  Search opened a single place directly");
+        const name = await page.$eval("h1", (el) => el.textContent?.trim() || null).catch(() => null);
+        return [{ url: page.url(), name }];
+    }
+
+    await page.waitForSelector('div[role="feed"]', { timeout: 15000 }).catch(() => {
+        log.warning("  Timed out waiting for the results feed");
+    });
+
+    let lastCount = 0;
+    let noNewResultsCount = 0;
+    let results: SearchResult[] = [];
+
+    for (let attempt = 0; attempt < Math.ceil(maxPlaces / 5) + 10; attempt++) {
+        results = await page.$$eval(RESULT_LINK, (links: Element[]) => {
+            const byUrl = new Map<string, string | null>();
+            for (const a of links) {
+                const href = (a as HTMLAnchorElement).href;
+                if (!byUrl.has(href)) byUrl.set(href, a.getAttribute("aria-label")?.trim() || null);
+            }
+            return [...byUrl].map(([url, name]) => ({ url, name }));
+        });
+        if (results.length >= maxPlaces) break;
+
+        const atEnd = await page.$(END_OF_LIST);
+        if (atEnd) {
+            log.info(`  Reached end of results (${results.length} places)`);
+            break;
+        }
+
+        if (results.length === lastCount) {
+            noNewResultsCount++;
+            if (noNewResultsCount >= 3) {
+                log.info(`  No new results after ${noNewResultsCount} scrolls (${results.length} places)`);
+                break;
+            }
+        } else {
+            noNewResultsCount = 0;
+        }
+        lastCount = results.length;
+
+        await page.evaluate(() => {
+            const feed = document.querySelector('div[role="feed"]');
+            if (feed) feed.scrollTop = feed.scrollHeight;
+        });
+        // Wait for the next batch of results (or the end of the list) to render
+        await page.waitForFunction(({ count, end }) => {
+            const links = document.querySelectorAll<HTMLAnchorElement>(RESULT_LINK);
+            return new Set(Array.from(links, (a) => a.href)).size > count || !!document.querySelector(end);
+        }, { count: results.length, end: END_OF_LIST }, { timeout: 5000 }).catch(() => {});
+    }
+
+    return results.slice(0, maxPlaces);
+}
@@ -0,0 +1,146 @@
+/**
+ * Selector registry and selector-health reporting.
+ *
+ * Every CSS selector we depend on lives here as an ordered list of
+ * fallbacks per field. Input can replace any field's list without a new
+ * build. While scraping we count which selector matched each field and
+ * how many cards came back without a name, date or text; the totals are
+ * saved as a report and fail the run when coverage drops too far.
+ */
+
+import type { CardParseStats, SelectorHealthReport, SelectorRegistry } from "./types.js";
+
+/** Bump whenever DEFAULT_SELECTORS changes so reports can be compared. */
+export const SELECTOR_REGISTRY_VERSION = 4;
+
+export const SELECTOR_HEALTH_KEY = "SELECTOR_HEALTH";
+
+export const DEFAULT_SELECTORS: SelectorRegistry = {
+    card: ['div[data-review-id]', 'div.jftiEf', 'div.jJc9Ad', 'div.GHT2ce'],
+    scrollContainer: ['div.m6QErb.DxyBCb', 'div.m6QErb.WNBkOb', 'div.m6QErb'],
+    sortButton: ['button[data-value="Sort"]'],
+    sortMenuItem: [
+        'div[role="menuitemradio"]',
+        'li[role="menuitemradio"]',
+        'div[role="menuitem"]',
+        'li[role="menuitem"]',
+        'a[data-index]',
+    ],
+    reviewSearchInput: ['div.m6QErb input[type="text"]', 'input.LCTIRd'],
+    moreButton: ['button.w8nwRe.kyuRq', 'button[aria-label="See more"]', 'button[aria-expanded="false"]'],
+    stars: ['span.kvMYJc[role="img"]'],
+    reviewerName: ['div.d4r55', 'a[href*="/contrib/"] div', 'button[data-review-id] div'],
+    reviewerInfo: ['div.RfnDt span', 'span'],
+    reviewerLink: ['a[href*="/contrib/"]', 'button[data-href*="/contrib/"]'],
+    reviewerPhoto: ['img.NBa7we', 'button[data-href*="/contrib/"] img', 'a[href*="/contrib/"] img'],
+    date: ['span.rsqaWe'],
+    text: ['span.wiI7pd', 'div.MyEned span'],
+    ownerResponse: ['div.CDe7pd'],
+    ownerResponseText: ['div.wiI7pd', 'span.wiI7pd'],
+    ownerResponseDate: ['span.DZSIDd'],
+    photo: ['button.Tya61d', 'button[data-photo-index]'],
+    attributeRow: ['div.PBK6be'],
+    attributeValue: ['span.RfDO5c'],
+    likes: ['span.pkWtMe'],
+    // Reviewer profile pages reuse the card layout, with the place where the reviewer name would be
+    profilePlaceName: ['div.d4r55', 'div.WNxzHc'],
+    profilePlaceAddress: ['div.RfnDt', 'span.RfnDt'],
+    profilePlaceLink: ['a[href*="/maps/place/"]', 'button[data-href*="/maps/place/"]'],
+    // Above the review list: the star histogram and the "Refine reviews" chips
+    ratingHistogramRow: ['tr.BHOKXe[aria-label]', 'table tr[aria-label]'],
+    topicChip: ['div[role="radiogroup"] button[role="radio"]', 'button.e2moi'],
+};
+
+/**
+ * Apply input overrides. A field given in `overrides` replaces the default
+ * list for that field entirely; empty lists are ignored.
+ */
+export function resolveSelectors(overrides: Partial<SelectorRegistry> = {}): SelectorRegistry {
+    const resolved = { ...DEFAULT_SELECTORS };
+    for (const [field, list] of Object.entries(overrides) as Array<[keyof SelectorRegistry, string[] | undefined]>) {
+        if (field in DEFAULT_SELECTORS && Array.isArray(list) && list.length > 0) {
+            resolved[field] = list;
+        }
+    }
+    return resolved;
+}
+
+export function createSelectorHealth(minFieldCoverage: number): SelectorHealthReport {
+    return {
+        registryVersion: SELECTOR_REGISTRY_VERSION,
+        generatedAt: new Date().toISOString(),
+        minFieldCoverage,
+        cardsParsed: 0,
+        rpcReviews: 0,
+        matched: {},
+        missing: { name: 0, date: 0, text: 0 },
+        coverage: { name: null, date: null, text: null },
+        failedFields: [],
+        unreadPlaces: [],
+        places: [],
+    };
+}
+
+/**
+ * Count one match of `selector` for `field`.
+ */
+export function recordMatch(report: SelectorHealthReport, field: keyof SelectorRegistry, selector: string | null): void {
+    const key = selector ?? "none";
+    const counts = (report.matched[field] ??= {});
+    counts[key] = (counts[key] ?? 0) + 1;
+}
+
+/**
+ * Fold one batch of card stats into the run report.
+ */
+export function mergeCardStats(report: SelectorHealthReport, stats: CardParseStats): void {
+    report.cardsParsed += stats.cards;
+    for (const [field, counts] of Object.entries(stats.matched)) {
+        const target = (report.matched[field] ??= {});
+        for (const [selector, n] of Object.entries(counts)) {
+            target[selector] = (target[selector] ?? 0) + n;
+        }
+    }
+    report.missing.name += stats.missing.name;
+    report.missing.date += stats.missing.date;
+    report.missing.text += stats.missing.text;
+}
+
+/**
+ * Compute coverage and the fields below threshold. Text coverage is
+ * reported but never fails the run, since rating-only reviews are normal.
+ */
+export function finalizeSelectorHealth(report: SelectorHealthReport): SelectorHealthReport {
+    const { cardsParsed, missing } = report;
+    const ratio = (n: number) => (cardsParsed > 0 ? 1 - n / cardsParsed : null);
+    report.coverage = { name: ratio(missing.name), date: ratio(missing.date), text: ratio(missing.text) };
+    report.failedFields = (["name", "date"] as const).filter((field) => {
+        const coverage = report.coverage[field];
+        return coverage !== null && coverage < report.minFieldCoverage;
+    });
+    report.generatedAt = new Date().toISOString();
+    return report;
+}
+
+/** "83%" for a 0–1 share, "n/a" for null. */
+export function formatShare(value: number | null): string {
+    return value === null ? "n/a" : `${Math.round(value * 100)}%`;
+}
+
+/**
+ * Why a finalized report should fail the run, or null when it passes.
+ * Besides low coverage, any place that lists reviews but yielded none at
+ * all fails it: with the card or stars selector broken, no card is
+ * counted and coverage alone can't tell.
+ */
+export function selectorHealthFailure(report: SelectorHealthReport): string | null {
+    const problems: string[] = [];
+    if (report.failedFields.length > 0) {
+        problems.push(`Selector coverage below ${formatShare(report.minFieldCoverage)} for: ${report.failedFields.join(", ")}.`);
+    }
+    if (report.unreadPlaces.length > 0) {
+        problems.push(`No review could be read from ${report.unreadPlaces.length} places that list reviews: ${report.unreadPlaces.join(", ")}.`);
+    }
+    if (problems.length === 0) return null;
+    return `${problems.join(" ")} Google likely changed its markup; see the ${SELECTOR_HEALTH_KEY} record and override selectors via input.`;
+}
@@ -0,0 +1,226 @@
+/**
+ * Output sinks: where the records of a run go.
+ *
+ * The scraping core hands records to a ScraperSink as they are collected.
+ * These are the ready-made ones: Apify datasets, an HTTP webhook that
+ * batches records and retries failed requests, and local files. Sinks can
+ * be combined, e.g. datasets plus a webhook. Each must be closed after the
+ * run so buffered records are flushed.
+ */
+
+import { randomUUID } from "node:crypto";
+import { Actor, log } from "apify";
+import { openRecordWriter, type OutputFormat } from "./output.js";
+import { OUTPUT_SCHEMA_VERSION } from "./schema.js";
+import type { GoogleScraperInput, ScraperSink } from "./types.js";
+
+/** A sink with buffered records to flush once the run ends. */
+export interface OutputSink extends ScraperSink {
+    close(): Promise<void>;
+}
+
+/** Record kinds, as named in webhook payloads. */
+export type RecordKind = "review" | "place" | "reviewerReview" | "change";
+
+/**
+ * Apify datasets: reviews to the default dataset, every other record kind
+ * to a named dataset of its own, so the default one holds a single record
+ * shape.
+ */
+export async function createDatasetSink(input: GoogleScraperInput): Promise<OutputSink> {
+    const placesDataset = await Actor.openDataset(input.placesDatasetName ?? "places");
+    const reviewerDataset = input.scrapeReviewerProfiles ? await Actor.openDataset(input.reviewerDatasetName ?? "reviewer-reviews") : null;
+    const changesDataset = input.trackChanges ? await Actor.openDataset(input.changesDatasetName ?? "review-changes") : null;
+
+    return {
+        pushReviews: (reviews) => Actor.pushData(reviews),
+        pushPlace: (place) => placesDataset.pushData(place),
+        pushReviewerReviews: async (reviews) => {
+            await reviewerDataset?.pushData(reviews);
+        },
+        pushChangeEvents: async (events) => {
+            await changesDataset?.pushData(events);
+        },
+        close: async () => {},
+    };
+}
+
+// ---------------------------------------------------------------------------
+// Webhook
+// ---------------------------------------------------------------------------
+
+export interface WebhookSinkOptions {
+    url: string;
+    headers?: Record<string, string>;
+    batchSize?: number;    // Records per request (default 100)
+    maxRetries?: number;   // Retries of a failed request (default 5)
+    retryDelayMs?: number; // First retry delay, doubled each time (default 1000)
+    timeoutMs?: number;    // Per request (default 30000)
+    maxPendingBatches?: number; // Batches queued before a push waits for delivery (default 20)
+}
+
+/** Worth retrying: rate limits, timeouts and server errors. */
+function isRetryableStatus(status: number): boolean {
+    return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * POST records as JSON batches of one kind each:
+ * `{ schemaVersion, kind, batchId, records }`. Records are buffered per
+ * kind until a batch is full; close() sends the rest and waits for every
+ * batch. Requests go out one at a time, in order, in the background: a
+ * push only waits when maxPendingBatches are already queued, so a slow
+ * receiver holds up the scrape only that far. A failed request is retried with exponential
+ * backoff (honouring Retry-After) under the same Idempotency-Key, so the
+ * receiver can drop duplicates. A batch that is rejected or runs out of
+ * retries is logged and skipped, so the scrape and the other sinks carry
+ * on; close() then throws, failing the run.
+ */
+export function createWebhookSink(options: WebhookSinkOptions): OutputSink {
+    const { url, headers = {}, batchSize = 100, maxRetries = 5, retryDelayMs = 1000, timeoutMs = 30000, maxPendingBatches = 20 } = options;
+    const buffers: Record<RecordKind, object[]> = { review: [], place: [], reviewerReview: [], change: [] };
+    let queue: Promise<void> = Promise.resolve();
+    const failures: string[] = [];
+    let batches = 0;
+    let pending = 0;
+    let onSettled: Array<() => void> = [];
+
+    const post = async (kind: RecordKind, records: object[]): Promise<void> => {
+        const batchId = randomUUID();
+        const body = JSON.stringify({ schemaVersion: OUTPUT_SCHEMA_VERSION, kind, batchId, records });
+        for (let attempt = 0; ; attempt++) {
+            let retryAfterMs: number | null = null;
+            let retryable = true;
+            let failure: string;
+            try {
+                const res = await fetch(url, {
+                    method: "POST",
+                    headers: { "Content-Type": "application/json", "Idempotency-Key": batchId, ...headers },
+                    body,
+                    signal: AbortSignal.timeout(timeoutMs),
+                });
+                if (res.ok) return;
+                failure = `HTTP ${res.status}`;
+                retryable = isRetryableStatus(res.status);
+                const retryAfter = Number(res.headers.get("retry-after"));
+                if (retryAfter > 0) retryAfterMs = retryAfter * 1000;
+            } catch (err) {
+                // Network errors and timeouts
+                failure = err instanceof Error ? err.message : String(err);
+            }
+            if (!retryable) {
+                throw new Error(`Webhook rejected ${records.length} ${kind} records: ${failure}`);
+            }
+            if (attempt >= maxRetries) {
+                throw new Error(`Webhook failed for ${records.length} ${kind} records after ${attempt + 1} attempts: ${failure}`);
+            }
+            const delay = retryAfterMs ?? retryDelayMs * 2 ** attempt;
+            log.warning(`Webhook request failed (${failure}), retrying in ${Math.round(delay / 1000)}s`);
+            await new Promise((resolve) => setTimeout(resolve, delay));
+        }
+    };
+
+    /** Queue a request behind the ones already sending. */
+    const send = (kind: RecordKind, records: object[]): void => {
+        batches++;
+        pending++;
+        queue = queue
+            .then(() => post(kind, records))
+            .catch((err: Error) => {
+                log.error(err.message);
+                failures.push(err.message);
+            })
+            .finally(() => {
+                pending--;
+                const waiting = onSettled;
+                onSettled = [];
+                waiting.forEach((resume) => resume());
+            });
+    };
+
+    const push = async (kind: RecordKind, records: object[], flushAll = false): Promise<void> => {
+        const buffer = buffers[kind];
+        buffer.push(...records);
+        while (buffer.length >= batchSize || (flushAll && buffer.length > 0)) {
+            send(kind, buffer.splice(0, batchSize));
+        }
+        while (pending > maxPendingBatches) {
+            await new Promise<void>((resume) => onSettled.push(resume));
+        }
+    };
+
+    return {
+        pushReviews: (reviews) => push("review", reviews),
+        pushPlace: (place) => push("place", [place]),
+        pushReviewerReviews: (reviews) => push("reviewerReview", reviews),
+        pushChangeEvents: (events) => push("change", events),
+        close: async () => {
+            for (const kind of Object.keys(buffers) as RecordKind[]) await push(kind, [], true);
+            await queue;
+            if (failures.length > 0) {
+                throw new Error(`Webhook did not take ${failures.length} of ${batches} batches, first: ${failures[0]}`);
+            }
+        },
+    };
+}
+
+// ---------------------------------------------------------------------------
+// Local files
+// ---------------------------------------------------------------------------
+
+export interface FileSinkOptions {
+    format: OutputFormat;
+    reviews: string;         // One path per record kind
+    places: string;
+    reviewerReviews: string | null; // Only with scrapeReviewerProfiles
+    changes: string | null;  // Only with trackChanges
+}
+
+/** One local file per enabled record kind, written as records arrive. */
+export async function createFileSink(options: FileSinkOptions): Promise<OutputSink> {
+    const { format } = options;
+    const reviewsOut = await openRecordWriter(options.reviews, format);
+    const placesOut = await openRecordWriter(options.places, format);
+    const reviewersOut = options.reviewerReviews ? await openRecordWriter(options.reviewerReviews, format) : null;
+    const changesOut = options.changes ? await openRecordWriter(options.changes, format) : null;
+
+    return {
+        pushReviews: (reviews) => reviewsOut.write(reviews),
+        pushPlace: (place) => placesOut.write([place]),
+        pushReviewerReviews: async (reviews) => {
+            await reviewersOut?.write(reviews);
+        },
+        pushChangeEvents: async (events) => {
+            await changesOut?.write(events);
+        },
+        close: async () => {
+            await Promise.all([reviewsOut.close(), placesOut.close(), reviewersOut?.close(), changesOut?.close()]);
+        },
+    };
+}
+
+// ---------------------------------------------------------------------------
+// Fan-out
+// ---------------------------------------------------------------------------
+
+/** Hand every record to each of `sinks`. */
+export function combineSinks(sinks: OutputSink[]): OutputSink {
+    if (sinks.length === 1) return sinks[0];
+    return {
+        pushReviews: async (reviews) => {
+            await Promise.all(sinks.map((s) => s.pushReviews(reviews)));
+        },
+        pushPlace: async (place) => {
+            await Promise.all(sinks.map((s) => s.pushPlace(place)));
+        },
+        pushReviewerReviews: async (reviews) => {
+            await Promise.all(sinks.map((s) => s.pushReviewerReviews(reviews)));
+        },
+        pushChangeEvents: async (events) => {
+            await Promise.all(sinks.map((s) => s.pushChangeEvents?.(events)));
+        },
+        close: async () => {
+            await Promise.all(sinks.map((s) => s.close()));
+        },
+    };
+}
@@ -0,0 +1,70 @@
+/**
+ * Persisted per-place state for incremental runs.
+ *
+ * Each place gets one record in a named KeyValueStore holding the IDs of
+ * every review already emitted. Named stores outlive the run, so the next
+ * scheduled run can stop scrolling as soon as it reaches a known review.
+ */
+
+import { createHash } from "node:crypto";
+import { log } from "apify";
+import { KeyValueStore } from "crawlee";
+import type { PlaceDetails, PlaceState } from "./types.js";
+
+export const DEFAULT_STATE_STORE = "tastly-review-state";
+
+/** Upper bound on stored IDs per place; the oldest are dropped first. */
+const MAX_STORED_IDS = 20000;
+
+/**
+ * Build the KeyValueStore key for a place from its feature ID, which every
+ * resolved place URL carries (the ChIJ ID only renders sometimes). Feature
+ * IDs contain ":" which is not allowed in keys, so anything outside the
+ * permitted set is replaced.
+ */
+export function placeStateKey(place: PlaceDetails | null, startUrl: string): string {
+    if (place?.fid) {
+        return `PLACE-${place.fid.replace(/[^a-zA-Z0-9!\-_.'()]/g, "-")}`.slice(0, 256);
+    }
+    const hash = createHash("sha1").update(startUrl).digest("hex").slice(0, 16);
+    return `PLACE-URL-${hash}`;
+}
+
+/**
+ * True when `resetStateFor` names this place by place ID, feature ID, CID or start URL.
+ */
+export function isResetRequested(resetStateFor: string[], place: PlaceDetails | null, startUrl: string): boolean {
+    const names = new Set([startUrl, place?.placeId, place?.fid, place?.cid].filter(Boolean));
+    return resetStateFor.some((r) => names.has(r.trim()));
+}
+
+export async function openStateStore(name = DEFAULT_STATE_STORE): Promise<KeyValueStore> {
+    return KeyValueStore.open(name);
+}
+
+export async function loadPlaceState(store: KeyValueStore, key: string): Promise<PlaceState | null> {
+    return store.getValue<PlaceState>(key);
+}
+
+/**
+ * Merge newly emitted review IDs into the stored state. New IDs go first
+ * so the cap trims the oldest ones.
+ */
+export async function savePlaceState(
+    store: KeyValueStore,
+    key: string,
+    place: PlaceDetails | null,
+    previous: PlaceState | null,
+    emittedIds: string[],
+): Promise<PlaceState> {
+    const merged = [...new Set([...emittedIds, ...(previous?.reviewIds ?? [])])].slice(0, MAX_STORED_IDS);
+    const state: PlaceState = {
+        placeId: place?.placeId ?? previous?.placeId ?? null,
+        placeName: place?.name ?? previous?.placeName ?? null,
+        reviewIds: merged,
+        updatedAt: new Date().toISOString(),
+    };
+    await store.setValue(key, state);
+    log.info(`  Saved incremental state "${key}" (${merged.length} known reviews, ${emittedIds.length} new)`);
+    return state;
+}
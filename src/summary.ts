@@ -0,0 +1,66 @@
+/**
+ * Run summary: one record per place with its outcome and a few aggregates
+ * over the reviews scraped for it, saved to the default key-value store so
+ * callers can tell a place without reviews from a blocked one.
+ */
+
+import type { GoogleReview, PlaceStatus, PlaceSummary, ReviewWindowStats, RunSummary } from "./types.js";
+
+export const RUN_SUMMARY_KEY = "RUN_SUMMARY";
+
+function share(n: number, total: number): number | null {
+    return total > 0 ? Math.round((n / total) * 1000) / 1000 : null;
+}
+
+/**
+ * Star histogram, mean rating, owner-response rate and text share of a
+ * place's scraped reviews. Rates are null when there are no reviews.
+ */
+export function computeReviewStats(reviews: GoogleReview[]): ReviewWindowStats {
+    const starHistogram = { "1": 0, "2": 0, "3": 0, "4": 0, "5": 0 };
+    let starSum = 0;
+    for (const review of reviews) {
+        const key = String(Math.round(review.stars)) as keyof typeof starHistogram;
+        if (key in starHistogram) starHistogram[key]++;
+        starSum += review.stars;
+    }
+    const total = reviews.length;
+    return {
+        starHistogram,
+        averageRating: total > 0 ? Math.round((starSum / total) * 100) / 100 : null,
+        ownerResponseRate: share(reviews.filter((r) => r.responseFromOwnerText).length, total),
+        withTextShare: share(reviews.filter((r) => r.text || r.textTranslated).length, total),
+    };
+}
+
+/**
+ * Status of a finished place. A page problem seen on the last attempt wins;
+ * otherwise an error means "failed", and an empty result only counts as
+ * "no-reviews" when no cutoff or known review explains it.
+ */
+export function resolvePlaceStatus(run: {
+    pageProblem: PlaceStatus | null;
+    error: string | null;
+    reviewsCollected: number;
+    hitDateCutoff: boolean;
+    hitKnownReview: boolean;
+}): PlaceStatus {
+    if (run.pageProblem) return run.pageProblem;
+    if (run.error) return "failed";
+    if (run.reviewsCollected === 0 && !run.hitDateCutoff && !run.hitKnownReview) return "no-reviews";
+    return "ok";
+}
+
+export function buildRunSummary(places: PlaceSummary[]): RunSummary {
+    const byStatus: Partial<Record<PlaceStatus, number>> = {};
+    for (const place of places) byStatus[place.status] = (byStatus[place.status] ?? 0) + 1;
+    return {
+        generatedAt: new Date().toISOString(),
+        places,
+        totals: {
+            places: places.length,
+            reviewsCollected: places.reduce((sum, p) => sum + p.reviewsCollected, 0),
+            byStatus,
+        },
+    };
+}
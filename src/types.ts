@@ -1,22 +1,302 @@
 export interface GoogleScraperInput {
     startUrls: { url: string }[];
+    places?: (PlaceInput | string)[]; // Places by ID, CID, short link or name + address; strings are IDs, CIDs or URLs
     maxItems?: number;
     newerThan?: string; // ISO date string (YYYY-MM-DD)
+    placesDatasetName?: string; // Named dataset for PlaceDetails (default "places")
+    incremental?: boolean;      // Only emit reviews not seen by previous runs
+    stateStoreName?: string;    // Named KeyValueStore holding per-place incremental state
+    resetStateFor?: string[];   // Place IDs, CIDs or start URLs whose state is rebuilt this run
+    language?: string;          // hl code for the Maps UI and date parsing (default "en")
+    searchQueries?: string[];   // Free-text Maps searches; every place listed is scraped
+    searchLocation?: string;    // Appended to each search query, e.g. "Coral Gables, FL"
+    maxPlacesPerSearch?: number;
+    expandSearchUrls?: boolean; // Scrape every place a search URL in startUrls/places lists, not only the top one
+    maxConcurrency?: number;    // Places scraped in parallel (default 3)
+    selectorOverrides?: Partial<SelectorRegistry>; // Replaces the default fallbacks per field
+    minFieldCoverage?: number;  // Fail the run when name/date coverage drops below this (default 0.8)
+    sortBy?: ReviewSortOrder;   // Review panel order (default "newest")
+    reviewsQuery?: string;      // Typed into the panel's "Search reviews" box
+    starRatings?: number[];     // Keep only reviews with these star counts, e.g. [1, 2]
+    scrapeReviewerProfiles?: boolean; // Visit reviewers' profiles for their other reviews
+    maxReviewerProfiles?: number;     // Profiles visited per run (default 20)
+    maxReviewsPerReviewer?: number;   // Reviews read from each profile (default 50)
+    reviewerDatasetName?: string;     // Named dataset for profile reviews (default "reviewer-reviews")
+    scrapeReviewTopics?: boolean;     // Also scrape the reviews under each topic chip, tagging them with it
+    maxTopics?: number;               // Topic chips scraped per place (default 5)
+    maxReviewsPerTopic?: number;      // Reviews read under each topic chip (default 50)
+    menuItems?: (MenuItemInput | string)[]; // Dishes to find in review text; strings are names without aliases
+    trackChanges?: boolean;      // Compare reviews with the last run's snapshot and emit change events
+    snapshotStoreName?: string;  // Named KeyValueStore holding per-place review snapshots
+    changesDatasetName?: string; // Named dataset for change events (default "review-changes")
+    webhookUrl?: string;         // Also POST every record here, in batches
+    webhookHeaders?: Record<string, string>; // e.g. { "Authorization": "Bearer …" }
+    webhookBatchSize?: number;   // Records per webhook request (default 100)
+}
+
+/** A dish to look for in reviews, with other names it goes by. */
+export interface MenuItemInput {
+    name: string;
+    aliases?: string[]; // e.g. ["tomahawk", "bone-in ribeye"] for "Tomahawk Ribeye"
+}
+
+/** A place given by any identifier we can resolve, not only a full Maps URL. */
+export interface PlaceInput {
+    url?: string;     // Maps place or search URL, cid= link or maps.app.goo.gl short link
+    placeId?: string; // ChIJ… place ID
+    cid?: string;     // Decimal CID
+    name?: string;    // Expected name; the resolved place must match it
+    address?: string; // With name alone, narrows the Maps search used to find the place
+}
+
+export type ReviewSortOrder = "newest" | "mostRelevant" | "highestRating" | "lowestRating";
+
+/** Ordered CSS selector fallbacks for every element we read. */
+export interface SelectorRegistry {
+    card: string[];
+    scrollContainer: string[];
+    sortButton: string[];
+    sortMenuItem: string[];
+    reviewSearchInput: string[];
+    reviewerLink: string[];
+    reviewerPhoto: string[];
+    profilePlaceName: string[];
+    profilePlaceAddress: string[];
+    profilePlaceLink: string[];
+    ratingHistogramRow: string[];
+    topicChip: string[];
+    moreButton: string[];
+    stars: string[];
+    reviewerName: string[];
+    reviewerInfo: string[];
+    date: string[];
+    text: string[];
+    ownerResponse: string[];
+    ownerResponseText: string[];
+    ownerResponseDate: string[];
+    photo: string[];
+    attributeRow: string[];
+    attributeValue: string[];
+    likes: string[];
+}
+
+/** Which selector matched per field, and how many cards lacked key fields. */
+export interface CardParseStats {
+    cards: number;
+    matched: Record<string, Record<string, number>>; // field -> selector (or "fallback") -> hits
+    missing: { name: number; date: number; text: number };
+}
+
+export interface SelectorHealthReport {
+    registryVersion: number;
+    generatedAt: string;
+    minFieldCoverage: number;
+    cardsParsed: number;
+    rpcReviews: number;
+    matched: Record<string, Record<string, number>>;
+    missing: { name: number; date: number; text: number };
+    coverage: { name: number | null; date: number | null; text: number | null };
+    failedFields: string[];
+    unreadPlaces: string[]; // Places listing reviews where no card or RPC response yielded any
+    places: Array<{
+        url: string;
+        placeName: string | null;
+        reviewsCount: number | null; // Google's count for the place
+        cardsParsed: number;
+        rpcReviews: number;          // Reviews read from RPC responses, before filters
+        missing: CardParseStats["missing"];
+    }>;
+}
+
+export interface OpeningHoursEntry {
+    day: string;
+    hours: string;
+}
+
+export interface PlaceDetails {
+    schemaVersion: number; // OUTPUT_SCHEMA_VERSION of the run that wrote the record
+    placeId: string | null; // ChIJ… place ID, when the page exposes it
+    fid: string | null;     // Feature ID ("0x…:0x…") from the place URL; keys the place's stored state
+    cid: string | null;     // Decimal CID, as used by maps?cid= links
+    name: string | null;
+    url: string;
+    address: string | null;
+    rating: number | null;
+    reviewsCount: number | null;
+    category: string | null;
+    priceLevel: string | null;
+    location: { lat: number; lng: number } | null;
+    openingHours: OpeningHoursEntry[];
+    ratingDistribution: Record<"1" | "2" | "3" | "4" | "5", number> | null; // Google's all-time review count per star
+    reviewTopics: ReviewTopic[]; // "Refine reviews" chips, in Google's order
+    scrapedAt: string;
+}
+
+/** A "Refine reviews" chip: a topic and how many reviews mention it. */
+export interface ReviewTopic {
+    topic: string;
+    mentions: number;
+}
+
+export interface PlaceState {
+    placeId: string | null;
+    placeName: string | null;
+    reviewIds: string[]; // Newest first
+    updatedAt: string;
 }
 
 export interface GoogleReview {
+    schemaVersion: number;
     reviewId: string;
+    reviewIdSource: "native" | "derived"; // Google's own ID, or a hash of place and reviewer (deriveReviewId)
+    placeId: string | null;
+    placeName: string | null;
+    placeUrl: string;
     name: string;
     stars: number;
-    publishedAtDate: string;
-    text: string | null;
-    reviewUrl: string | null;
+    publishedAtDate: string | null; // null when the date text could not be parsed
+    text: string | null;            // Original text, as written by the reviewer
+    textTranslated: string | null;  // "Translated by Google" text, when Google showed one
+    reviewUrl: string | null;       // Maps link opening this review; null for derived IDs
     responseFromOwnerText: string | null;
     responseFromOwnerDate: string | null;
+    ownerResponseLatencyDays: number | null; // Days from review to owner reply
     likesCount: number;
-    reviewDetailedRating: Record<string, number> | null;
+    reviewImageUrls: string[];               // Full-resolution photo URLs
+    reviewDetailedRating: Record<string, number> | null; // Per-aspect stars, e.g. { Food: 5, Service: 4 }
+    reviewContext: Record<string, string> | null;        // e.g. { "Meal type": "Dine in", "Price per person": "$20–30" }
+    reviewerId: string | null;      // Numeric ID from the reviewer's /maps/contrib/ link
+    reviewerUrl: string | null;     // Reviewer's public Maps profile
+    reviewerPhotoUrl: string | null;
     reviewerNumberOfReviews: number | null;
+    reviewerNumberOfPhotos: number | null;
     isLocalGuide: boolean;
-    language: string;
+    language: string; // Detected language of the original text
     reviewOrigin: string;
+    topics: string[]; // Topic chips this review was found under (scrapeReviewTopics only)
+    mentionedItems: string[]; // Names of the menuItems the text or translation mentions
+}
+
+/** A review found on a reviewer's profile page, about any place. */
+export interface ReviewerProfileReview {
+    schemaVersion: number;
+    reviewerId: string;
+    reviewerUrl: string;
+    reviewerName: string | null;
+    foundViaPlaceId: string | null; // Our place whose review led to this profile
+    reviewId: string;
+    reviewIdSource: "native" | "derived";
+    placeName: string | null;
+    placeAddress: string | null;
+    placeUrl: string | null;
+    stars: number;
+    publishedAtDate: string | null;
+    text: string | null;
+    scrapedAt: string;
+}
+
+/**
+ * Outcome of one place. "failed" covers errors that are none of the
+ * recognised page problems (timeouts, crashes). "ambiguous" and
+ * "name-mismatch" come from place inputs with an expected name.
+ */
+export type PlaceStatus =
+    | "ok"
+    | "no-reviews"
+    | "blocked"
+    | "consent-wall"
+    | "place-not-found"
+    | "ambiguous"
+    | "name-mismatch"
+    | "failed";
+
+export interface ReviewWindowStats {
+    starHistogram: Record<"1" | "2" | "3" | "4" | "5", number>;
+    averageRating: number | null;     // Mean stars of the scraped reviews, not Google's overall rating
+    ownerResponseRate: number | null; // Share of reviews with an owner reply, 0–1
+    withTextShare: number | null;     // Share of reviews with any text, 0–1
+}
+
+export interface PlaceSummary {
+    startUrl: string;
+    placeId: string | null;
+    placeName: string | null;
+    status: PlaceStatus;
+    error: string | null;
+    reviewsCollected: number;
+    hitDateCutoff: boolean;
+    hitKnownReview: boolean;
+    durationSecs: number; // From the first attempt to the place being finalized
+    stats: ReviewWindowStats;
+}
+
+export interface RunSummary {
+    generatedAt: string;
+    places: PlaceSummary[];
+    totals: {
+        places: number;
+        reviewsCollected: number;
+        byStatus: Partial<Record<PlaceStatus, number>>;
+    };
+}
+
+/** Per-place dish mentions, stored under a MENU-* key. */
+export interface MenuReport {
+    placeId: string | null;
+    fid: string | null;
+    placeName: string | null;
+    placeUrl: string;
+    generatedAt: string;
+    reviewsScanned: number;
+    reviewsWithMentions: number;
+    items: Array<{
+        name: string;
+        mentions: number;            // Reviews mentioning the dish
+        averageStars: number | null; // Mean stars of those reviews
+    }>;
+}
+
+/** The review fields change tracking compares. */
+export interface ReviewValues {
+    stars: number;
+    text: string | null;
+    responseFromOwnerText: string | null;
+}
+
+/** A review as last seen, in a place's snapshot record. */
+export interface ReviewSnapshot extends ReviewValues {
+    hash: string; // Of stars, text and owner response
+    publishedAtDate: string | null;
+    reviewUrl: string | null;
+    firstSeenAt: string;
+    lastSeenAt: string;
+}
+
+export interface ReviewSnapshotRecord {
+    placeId: string | null;
+    placeName: string | null;
+    reviews: Record<string, ReviewSnapshot>; // Keyed by reviewId
+    updatedAt: string;
+}
+
+export type ReviewChangeType = "created" | "text-edited" | "rating-changed" | "owner-replied" | "disappeared";
+
+export interface ReviewChangeEvent {
+    schemaVersion: number;
+    type: ReviewChangeType;
+    reviewId: string;
+    placeId: string | null;
+    placeName: string | null;
+    reviewUrl: string | null;
+    before: ReviewValues | null; // null for "created"
+    after: ReviewValues | null;  // null for "disappeared"
+    detectedAt: string;
+}
+
+/** Receives every record a run produces. */
+export interface ScraperSink {
+    pushReviews(reviews: GoogleReview[]): Promise<void>;
+    pushPlace(place: PlaceDetails): Promise<void>;
+    pushReviewerReviews(reviews: ReviewerProfileReview[]): Promise<void>;
+    pushChangeEvents?(events: ReviewChangeEvent[]): Promise<void>; // Only called with trackChanges on
 }
@@ -1,42 +1,170 @@
+import { createHash } from "node:crypto";
+import { log } from "apify";
+import {
+    DATE_GRAMMARS,
+    STOPWORDS,
+    SUPPORTED_LANGUAGES,
+    isSupportedLanguage,
+    type DateUnit,
+    type RelativeDateGrammar,
+} from "./locales.js";
+
+function subtract(date: Date, amount: number, unit: DateUnit): void {
+    switch (unit) {
+        case "second": date.setSeconds(date.getSeconds() - amount); break;
+        case "minute": date.setMinutes(date.getMinutes() - amount); break;
+        case "hour":   date.setHours(date.getHours() - amount); break;
+        case "day":    date.setDate(date.getDate() - amount); break;
+        case "week":   date.setDate(date.getDate() - amount * 7); break;
+        case "month":  date.setMonth(date.getMonth() - amount); break;
+        case "year":   date.setFullYear(date.getFullYear() - amount); break;
+    }
+}
+
+function matchGrammar(lower: string, grammar: RelativeDateGrammar): { amount: number; unit: DateUnit } | null {
+    for (const pattern of grammar.patterns) {
+        const m = lower.match(pattern);
+        if (!m) continue;
+        const unit = grammar.units[m[2]];
+        if (!unit) continue;
+        const amount = grammar.one.includes(m[1]) ? 1 : parseInt(m[1]);
+        if (!Number.isNaN(amount)) return { amount, unit };
+    }
+    return null;
+}
+
 /**
- * Parse a relative date string like "2 months ago", "a week ago", etc.
- * into an ISO date string.
+ * Parse a relative date string like "2 months ago", "hace una semana" or
+ * "vor 3 Tagen" into an ISO date string. The grammar for `language` is
+ * tried first, then every other supported one, since Google sometimes
+ * leaves dates in a different language than the rest of the page.
+ *
+ * `now` is the reference time, injectable so results are reproducible.
+ * Returns null (and logs a warning) when nothing matches.
  */
-export function parseRelativeDate(text: string): string {
-    const now = new Date();
+export function parseRelativeDate(text: string, language = "en", now = new Date()): string | null {
     const lower = text.toLowerCase().trim();
+    if (!lower) {
+        log.warning("Review has no date text");
+        return null;
+    }
 
-    const match = lower.match(/(\d+)\s+(second|minute|hour|day|week|month|year)s?\s+ago/);
-    if (match) {
-        const amount = parseInt(match[1]);
-        const unit = match[2];
-        switch (unit) {
-            case "second": now.setSeconds(now.getSeconds() - amount); break;
-            case "minute": now.setMinutes(now.getMinutes() - amount); break;
-            case "hour":   now.setHours(now.getHours() - amount); break;
-            case "day":    now.setDate(now.getDate() - amount); break;
-            case "week":   now.setDate(now.getDate() - amount * 7); break;
-            case "month":  now.setMonth(now.getMonth() - amount); break;
-            case "year":   now.setFullYear(now.getFullYear() - amount); break;
+    const order = isSupportedLanguage(language)
+        ? [language, ...SUPPORTED_LANGUAGES.filter((l) => l !== language)]
+        : [...SUPPORTED_LANGUAGES];
+
+    for (const lang of order) {
+        const match = matchGrammar(lower, DATE_GRAMMARS[lang]);
+        if (match) {
+            const date = new Date(now.getTime());
+            subtract(date, match.amount, match.unit);
+            return date.toISOString();
         }
-        return now.toISOString();
     }
 
-    // "a month ago", "an hour ago", etc.
-    const singleMatch = lower.match(/^a[n]?\s+(second|minute|hour|day|week|month|year)\s+ago$/);
-    if (singleMatch) {
-        const unit = singleMatch[1];
-        switch (unit) {
-            case "second": now.setSeconds(now.getSeconds() - 1); break;
-            case "minute": now.setMinutes(now.getMinutes() - 1); break;
-            case "hour":   now.setHours(now.getHours() - 1); break;
-            case "day":    now.setDate(now.getDate() - 1); break;
-            case "week":   now.setDate(now.getDate() - 7); break;
-            case "month":  now.setMonth(now.getMonth() - 1); break;
-            case "year":   now.setFullYear(now.getFullYear() - 1); break;
-        }
-        return now.toISOString();
+    log.warning(`Could not parse review date "${text}"`);
+    return null;
+}
+
+/**
+ * Regex sources matching a relative date in any supported language, for use
+ * inside page.evaluate where the grammars themselves are not available.
+ */
+export function relativeDatePatternSources(): string[] {
+    return SUPPORTED_LANGUAGES.flatMap((lang) => DATE_GRAMMARS[lang].patterns.map((p) => p.source));
+}
+
+/**
+ * Guess the language of a review from stopword hits. Returns null when the
+ * text is too short or no language clearly wins.
+ */
+export function detectLanguage(text: string | null): string | null {
+    if (!text) return null;
+    const words = text.toLowerCase().match(/[\p{L}']+/gu) ?? [];
+    if (words.length < 3) return null;
+
+    const scores = SUPPORTED_LANGUAGES.map((lang) => {
+        const stopwords = new Set(STOPWORDS[lang]);
+        return { lang, score: words.filter((w) => stopwords.has(w)).length };
+    }).sort((a, b) => b.score - a.score);
+
+    const [best, runnerUp] = scores;
+    if (best.score < 2 || best.score === runnerUp.score) return null;
+    return best.lang;
+}
+
+/**
+ * Split the label/value pairs shown under a restaurant review into per-aspect
+ * star ratings ("Food: 5/5") and everything else ("Meal type: Dine in").
+ * Either half is null when empty.
+ */
+export function splitReviewAttributes(pairs: Array<[string, string]>): {
+    ratings: Record<string, number> | null;
+    context: Record<string, string> | null;
+} {
+    const ratings: Record<string, number> = {};
+    const context: Record<string, string> = {};
+    for (const [rawLabel, rawValue] of pairs) {
+        const label = rawLabel.replace(/:\s*$/, "").trim();
+        const value = rawValue.trim();
+        if (!label || !value) continue;
+        const rating = value.match(/^([1-5])(?:\s*\/\s*5)?$/);
+        if (rating) ratings[label] = parseInt(rating[1]);
+        else context[label] = value;
     }
+    return {
+        ratings: Object.keys(ratings).length > 0 ? ratings : null,
+        context: Object.keys(context).length > 0 ? context : null,
+    };
+}
 
-    return now.toISOString();
+/**
+ * Rewrite a googleusercontent thumbnail URL ("…=w300-h450-p-k-no") to
+ * request the original image.
+ */
+export function toFullResolutionImageUrl(url: string): string {
+    if (!/googleusercontent\.com/.test(url)) return url;
+    return url.replace(/=[swh]\d+[^/?#]*$/, "") + "=s0";
+}
+
+/**
+ * Reviewer ID and canonical profile URL from a /maps/contrib/<id> link.
+ * Both are null when the link is missing or has no numeric ID.
+ */
+export function parseContribUrl(href: string | null): { reviewerId: string | null; reviewerUrl: string | null } {
+    const m = href?.match(/\/contrib\/(\d+)/);
+    if (!m) return { reviewerId: null, reviewerUrl: null };
+    return { reviewerId: m[1], reviewerUrl: `https://www.google.com/maps/contrib/${m[1]}` };
+}
+
+/**
+ * Whole days between a review and the owner's reply, or null if either
+ * date is unknown. Negative gaps (from relative-date rounding) clamp to 0.
+ */
+export function ownerResponseLatencyDays(publishedAt: string | null, respondedAt: string | null): number | null {
+    if (!publishedAt || !respondedAt) return null;
+    const ms = new Date(respondedAt).getTime() - new Date(publishedAt).getTime();
+    if (Number.isNaN(ms)) return null;
+    return Math.max(0, Math.round(ms / 86_400_000));
+}
+
+/**
+ * Stable ID for a review whose card carries no data-review-id. Google
+ * allows one review per reviewer per place, so with the reviewer's ID
+ * known the hash is of the place and that ID alone, and survives edits.
+ * Otherwise it is of the place, reviewer name, stars and text. Dates are
+ * never hashed: they are parsed from relative text ("2 months ago") and
+ * drift as the review ages.
+ */
+export function deriveReviewId(parts: {
+    place: string;
+    reviewerId: string | null;
+    reviewer: string;
+    stars: number;
+    text: string | null;
+}): string {
+    const key = parts.reviewerId
+        ? [parts.place, `contrib:${parts.reviewerId}`].join("\u0000")
+        : [parts.place, parts.reviewer.trim(), parts.stars, parts.text?.trim() ?? ""].join("\u0000");
+    return `derived-${createHash("sha1").update(key).digest("hex").slice(0, 24)}`;
 }
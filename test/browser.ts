@@ -0,0 +1,36 @@
+/**
+ * Headless Chromium for the page-level tests. Uses Playwright's own
+ * browser (`npm run test:browsers` installs it), or the one at
+ * CHROMIUM_PATH. Without either, suites are skipped locally and fail in CI.
+ */
+
+import { existsSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { chromium, type Browser, type Page } from "playwright";
+
+function defaultChromiumPath(): string | null {
+    try {
+        return chromium.executablePath();
+    } catch {
+        return null;
+    }
+}
+
+const chromiumPath = process.env.CHROMIUM_PATH || defaultChromiumPath();
+
+export const hasChromium = !!chromiumPath && existsSync(chromiumPath);
+
+// A CI run that skipped the page suites would pass without testing them
+if (!hasChromium && process.env.CI) {
+    throw new Error("No Chromium for the page tests; run `npm run test:browsers` or set CHROMIUM_PATH");
+}
+
+export function launchChromium(): Promise<Browser> {
+    return chromium.launch({ executablePath: chromiumPath ?? undefined, args: ["--no-sandbox"] });
+}
+
+/** Load `test/fixtures/<name>` into `page`, scripts included. */
+export async function loadFixture(page: Page, name: string): Promise<void> {
+    const html = await readFile(new URL(`./fixtures/${name}`, import.meta.url), "utf8");
+    await page.setContent(html);
+}
@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import { contentHash, diffReviews } from "../src/changes.js";
+import { OUTPUT_SCHEMA_VERSION } from "../src/schema.js";
+import type { GoogleReview, PlaceDetails, ReviewSnapshot, ReviewSnapshotRecord } from "../src/types.js";
+
+const PLACE = {
+    placeId: "ChIJsfDAovW02YgRPCobDQweTG8",
+    name: "Joe's Stone Crab",
+} as PlaceDetails;
+
+function review(reviewId: string, publishedAtDate: string, overrides: Partial<GoogleReview> = {}): GoogleReview {
+    return {
+        schemaVersion: OUTPUT_SCHEMA_VERSION,
+        reviewId,
+        reviewIdSource: "native",
+        placeId: PLACE.placeId,
+        placeName: PLACE.name,
+        placeUrl: "https://www.google.com/maps/place/Joe%27s+Stone+Crab",
+        name: "Maria Gonzalez",
+        stars: 5,
+        publishedAtDate,
+        text: "Great claws",
+        textTranslated: null,
+        reviewUrl: null,
+        responseFromOwnerText: null,
+        responseFromOwnerDate: null,
+        ownerResponseLatencyDays: null,
+        likesCount: 0,
+        reviewImageUrls: [],
+        reviewDetailedRating: null,
+        reviewContext: null,
+        reviewerId: null,
+        reviewerUrl: null,
+        reviewerPhotoUrl: null,
+        reviewerNumberOfReviews: null,
+        reviewerNumberOfPhotos: null,
+        isLocalGuide: false,
+        language: "en",
+        reviewOrigin: "Google",
+        topics: [],
+        mentionedItems: [],
+        ...overrides,
+    };
+}
+
+/** The snapshot record a previous run would have saved for `reviews`. */
+function snapshotOf(reviews: GoogleReview[]): ReviewSnapshotRecord {
+    const entries = reviews.map((r): [string, ReviewSnapshot] => {
+        const values = { stars: r.stars, text: r.text, responseFromOwnerText: r.responseFromOwnerText };
+        return [r.reviewId, {
+            ...values,
+            hash: contentHash(values),
+            publishedAtDate: r.publishedAtDate,
+            reviewUrl: r.reviewUrl,
+            firstSeenAt: "2025-01-01T00:00:00.000Z",
+            lastSeenAt: "2025-06-01T00:00:00.000Z",
+        }];
+    });
+    return { placeId: PLACE.placeId, placeName: PLACE.name, reviews: Object.fromEntries(entries), updatedAt: "2025-01-01T00:00:00.000Z" };
+}
+
+const NEW = review("new", "2025-05-01T12:00:00.000Z");
+const OLD = review("old", "2024-01-01T12:00:00.000Z");
+
+describe("diffReviews", () => {
+    it("only records the baseline on a place's first run", () => {
+        const { events, record } = diffReviews(PLACE, null, [NEW, OLD], { complete: true, since: null });
+        expect(events).toEqual([]);
+        expect(Object.keys(record.reviews)).toEqual(["new", "old"]);
+    });
+
+    it("reports edits, new ratings and owner replies with before and after values", () => {
+        const edited = review("new", NEW.publishedAtDate!, { stars: 2, text: "Went downhill", responseFromOwnerText: "Sorry to hear that" });
+        const { events } = diffReviews(PLACE, snapshotOf([NEW]), [edited], null);
+
+        expect(events.map((e) => e.type)).toEqual(["rating-changed", "text-edited", "owner-replied"]);
+        expect(events[0].before).toEqual({ stars: 5, text: "Great claws", responseFromOwnerText: null });
+        expect(events[0].after).toEqual({ stars: 2, text: "Went downhill", responseFromOwnerText: "Sorry to hear that" });
+    });
+
+    it("reports reviews missing from a complete read as disappeared", () => {
+        const { events, record } = diffReviews(PLACE, snapshotOf([NEW, OLD]), [NEW], { complete: true, since: null });
+        expect(events.map((e) => [e.type, e.reviewId])).toEqual([["disappeared", "old"]]);
+        expect(Object.keys(record.reviews)).toEqual(["new"]);
+    });
+
+    it("only counts reviews newer than the oldest one read on a partial read", () => {
+        const older = review("older", "2025-03-01T12:00:00.000Z");
+        const { events, record } = diffReviews(PLACE, snapshotOf([NEW, older, OLD]), [NEW], {
+            complete: false,
+            since: "2025-01-15T12:00:00.000Z",
+        });
+        expect(events.map((e) => [e.type, e.reviewId])).toEqual([["disappeared", "older"]]);
+        // Reviews the run never reached stay in the snapshot
+        expect(Object.keys(record.reviews)).toEqual(["new", "old"]);
+    });
+
+    it("allows for the precision of a stored relative date", () => {
+        // Read as "a month ago" / "a year ago" on 2025-06-01: up to a month / a year older than stored
+        const monthOld = review("month", "2025-05-01T00:00:00.000Z");
+        const yearOld = review("year", "2024-06-01T00:00:00.000Z");
+        const { events } = diffReviews(PLACE, snapshotOf([monthOld, yearOld]), [], {
+            complete: false,
+            since: "2024-03-01T00:00:00.000Z",
+        });
+        expect(events.map((e) => e.reviewId)).toEqual(["month"]);
+    });
+
+    it("reports nothing as disappeared when the read's coverage is unknown", () => {
+        for (const coverage of [null, { complete: false, since: null }]) {
+            const { events, record } = diffReviews(PLACE, snapshotOf([NEW, OLD]), [NEW], coverage);
+            expect(events).toEqual([]);
+            expect(Object.keys(record.reviews)).toEqual(["new", "old"]);
+        }
+    });
+});
@@ -0,0 +1,244 @@
+import type { Browser, Page } from "playwright";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { expandCards, extractNewCards, switchTranslatedCards, toGoogleReview, type RawReviewCard } from "../src/extract.js";
+import { labelsFor } from "../src/locales.js";
+import { OUTPUT_SCHEMA_VERSION } from "../src/schema.js";
+import { DEFAULT_SELECTORS } from "../src/selectors.js";
+import type { GoogleReview, PlaceDetails } from "../src/types.js";
+import { hasChromium, launchChromium, loadFixture } from "./browser.js";
+
+const NOW = new Date("2025-06-15T12:00:00.000Z");
+const FID = "0x88d9b4f5a2c0e2b1:0x6f4c1e0c0d1b2a3c";
+const CARD = "div.jftiEf";
+
+const PLACE: PlaceDetails = {
+    schemaVersion: OUTPUT_SCHEMA_VERSION,
+    placeId: "ChIJsfDAovW02YgRPCobDQweTG8",
+    fid: FID,
+    cid: "8020412325519534652",
+    name: "Joe's Stone Crab",
+    url: `https://www.google.com/maps/place/Joe's+Stone+Crab/data=!4m2!3m1!1s${FID}`,
+    address: "11 Washington Ave, Miami Beach, FL 33139",
+    rating: 4.5,
+    reviewsCount: 9342,
+    category: "Seafood restaurant",
+    priceLevel: "$$$",
+    location: null,
+    openingHours: [],
+    ratingDistribution: null,
+    reviewTopics: [],
+    scrapedAt: NOW.toISOString(),
+};
+
+const permalink = (reviewId: string) =>
+    `https://www.google.com/maps/reviews/data=!4m5!14m4!1m3!1m2!1s${reviewId}!2s${FID}`;
+
+const EXPECTED: GoogleReview[] = [
+    {
+        schemaVersion: OUTPUT_SCHEMA_VERSION,
+        reviewId: "ChZDSUhNMG9nS0VJQ0FnSUNudXF1c1pnEAE",
+        reviewIdSource: "native",
+        placeId: PLACE.placeId,
+        placeName: "Joe's Stone Crab",
+        placeUrl: PLACE.url,
+        name: "Maria Gonzalez",
+        stars: 5,
+        publishedAtDate: "2025-04-15T12:00:00.000Z",
+        text: "The stone crab claws were perfect and the key lime pie was the best we had on this trip. Service was quick even with the line out the door.",
+        textTranslated: null,
+        reviewUrl: permalink("ChZDSUhNMG9nS0VJQ0FnSUNudXF1c1pnEAE"),
+        responseFromOwnerText: "Thank you Maria, we hope to see you again next season!",
+        responseFromOwnerDate: "2025-05-15T12:00:00.000Z",
+        ownerResponseLatencyDays: 30,
+        likesCount: 3,
+        reviewImageUrls: [
+            "https://lh5.googleusercontent.com/p/AF1QipNcrab1=s0",
+            "https://lh5.googleusercontent.com/p/AF1QipNpie2=s0",
+        ],
+        reviewDetailedRating: { Food: 5, Service: 4, Atmosphere: 5 },
+        reviewContext: { "Meal type": "Dine in" },
+        reviewerId: "112233445566778899001",
+        reviewerUrl: "https://www.google.com/maps/contrib/112233445566778899001",
+        reviewerPhotoUrl: "https://lh3.googleusercontent.com/a-/ALV-UjWmaria=w36-h36-p-rp-mo-ba3-br100",
+        reviewerNumberOfReviews: 120,
+        reviewerNumberOfPhotos: 45,
+        isLocalGuide: true,
+        language: "en",
+        reviewOrigin: "Google",
+        topics: [],
+        mentionedItems: [],
+    },
+    {
+        schemaVersion: OUTPUT_SCHEMA_VERSION,
+        reviewId: "ChdDSUhNMG9nS0VJQ0FnSUNaMXRqRndnRRAB",
+        reviewIdSource: "native",
+        placeId: PLACE.placeId,
+        placeName: "Joe's Stone Crab",
+        placeUrl: PLACE.url,
+        name: "Lucía Fernández",
+        stars: 4,
+        publishedAtDate: "2025-05-25T12:00:00.000Z",
+        text: "La comida fue muy buena pero la espera fue larga, el pollo frito es imprescindible.",
+        textTranslated: "The food was very good but the wait was long, the fried chicken is a must.",
+        reviewUrl: permalink("ChdDSUhNMG9nS0VJQ0FnSUNaMXRqRndnRRAB"),
+        responseFromOwnerText: null,
+        responseFromOwnerDate: null,
+        ownerResponseLatencyDays: null,
+        likesCount: 0,
+        reviewImageUrls: [],
+        reviewDetailedRating: null,
+        reviewContext: null,
+        reviewerId: "223344556677889900112",
+        reviewerUrl: "https://www.google.com/maps/contrib/223344556677889900112",
+        reviewerPhotoUrl: "https://lh3.googleusercontent.com/a/ACg8ocLucia=w36-h36-p-rp-mo-br100",
+        reviewerNumberOfReviews: 8,
+        reviewerNumberOfPhotos: null,
+        isLocalGuide: false,
+        language: "es",
+        reviewOrigin: "Google",
+        topics: [],
+        mentionedItems: [],
+    },
+    {
+        schemaVersion: OUTPUT_SCHEMA_VERSION,
+        reviewId: "derived-6766dd385674ed52c0c8cd70",
+        reviewIdSource: "derived",
+        placeId: PLACE.placeId,
+        placeName: "Joe's Stone Crab",
+        placeUrl: PLACE.url,
+        name: "Tom B.",
+        stars: 4,
+        publishedAtDate: "2024-06-15T12:00:00.000Z",
+        text: null,
+        textTranslated: null,
+        reviewUrl: null,
+        responseFromOwnerText: null,
+        responseFromOwnerDate: null,
+        ownerResponseLatencyDays: null,
+        likesCount: 0,
+        reviewImageUrls: [],
+        reviewDetailedRating: null,
+        reviewContext: null,
+        reviewerId: "998877665544332211000",
+        reviewerUrl: "https://www.google.com/maps/contrib/998877665544332211000",
+        reviewerPhotoUrl: "https://lh3.googleusercontent.com/a/ACg8ocTom=w36-h36-p-rp-mo-br100",
+        reviewerNumberOfReviews: 3,
+        reviewerNumberOfPhotos: null,
+        isLocalGuide: false,
+        language: "en",
+        reviewOrigin: "Google",
+        topics: [],
+        mentionedItems: [],
+    },
+];
+
+describe.skipIf(!hasChromium)("review card parsing", () => {
+    let browser: Browser;
+    let page: Page;
+
+    beforeAll(async () => {
+        browser = await launchChromium();
+    });
+    afterAll(async () => {
+        await browser?.close();
+    });
+    beforeEach(async () => {
+        page = await browser.newPage();
+        await loadFixture(page, "reviews-panel.html");
+    });
+    afterEach(async () => {
+        await page.close();
+    });
+
+    const switchToOriginal = () => page.evaluate(switchTranslatedCards, {
+        sel: CARD,
+        textSelectors: DEFAULT_SELECTORS.text,
+        seeOriginal: labelsFor("en").seeOriginal,
+    });
+
+    it("switches translated cards to the original text once", async () => {
+        expect(await switchToOriginal()).toBe(1);
+        const card = page.locator(`${CARD}[data-review-id="ChdDSUhNMG9nS0VJQ0FnSUNaMXRqRndnRRAB"]`);
+        await expect.poll(() => card.locator("span.wiI7pd").textContent()).toMatch(/^La comida/);
+        expect(await card.getAttribute("data-tastly-translated")).toMatch(/^The food was very good/);
+
+        expect(await switchToOriginal()).toBe(0);
+    });
+
+    it("turns every card into the exact GoogleReview", async () => {
+        // Waits until the translated card shows its original text
+        await expandCards(page, CARD, DEFAULT_SELECTORS, labelsFor("en"));
+        const { reviews, stats } = await extractNewCards(page, CARD, DEFAULT_SELECTORS);
+
+        expect(reviews.map((raw) => toGoogleReview(raw, PLACE, "en", NOW))).toEqual(EXPECTED);
+        expect(stats).toEqual({
+            cards: 3,
+            missing: { name: 0, date: 0, text: 1 },
+            matched: {
+                stars: { 'span.kvMYJc[role="img"]': 3 },
+                reviewerName: { "div.d4r55": 3 },
+                date: { "span.rsqaWe": 3 },
+                text: { "span.wiI7pd": 2 },
+                ownerResponse: { "div.CDe7pd": 1 },
+                ownerResponseText: { "div.wiI7pd": 1 },
+                ownerResponseDate: { "span.DZSIDd": 1 },
+                likes: { "span.pkWtMe": 1 },
+                reviewerLink: { 'button[data-href*="/contrib/"]': 2, 'a[href*="/contrib/"]': 1 },
+                reviewerPhoto: { "img.NBa7we": 3 },
+            },
+        });
+    });
+
+    it("skips cards parsed by an earlier pass", async () => {
+        await extractNewCards(page, CARD, DEFAULT_SELECTORS);
+        const { reviews, stats } = await extractNewCards(page, CARD, DEFAULT_SELECTORS);
+        expect(reviews).toEqual([]);
+        expect(stats.cards).toBe(0);
+    });
+
+    it("counts missing fields when the registry stops matching", async () => {
+        const selectors = { ...DEFAULT_SELECTORS, reviewerName: ["div.renamed"], date: ["span.renamed"] };
+        const { reviews, stats } = await extractNewCards(page, CARD, selectors);
+
+        // Dates fall back to any span reading like one; names to link text, which these cards lack
+        expect(reviews.map((r) => r.dateText)).toEqual(["2 months ago", "3 weeks ago", "a year ago"]);
+        expect(stats.matched.date).toEqual({ fallback: 3 });
+        expect(stats.missing).toEqual({ name: 3, date: 0, text: 1 });
+    });
+});
+
+describe("toGoogleReview", () => {
+    const raw: RawReviewCard = {
+        reviewId: null,
+        name: "Tom B.",
+        stars: 4,
+        dateText: "2 months ago",
+        text: null,
+        textTranslated: null,
+        attributes: [],
+        responseFromOwnerText: null,
+        responseFromOwnerDateText: null,
+        reviewImageUrls: [],
+        likesCount: 0,
+        reviewerNumberOfReviews: 3,
+        reviewerNumberOfPhotos: null,
+        reviewerHref: null,
+        reviewerPhotoUrl: null,
+        isLocalGuide: false,
+    };
+
+    it("derives the same ID for a rating-only review as it ages", () => {
+        const now = toGoogleReview(raw, PLACE, "en", NOW);
+        const later = toGoogleReview({ ...raw, dateText: "5 months ago" }, PLACE, "en", new Date("2025-09-15T12:00:00.000Z"));
+        expect(later.reviewId).toBe(now.reviewId);
+        expect(now.reviewIdSource).toBe("derived");
+    });
+
+    it("derives the ID from the reviewer's profile link when there is one", () => {
+        const withProfile = { ...raw, reviewerHref: "https://www.google.com/maps/contrib/998877665544332211000/reviews?hl=en" };
+        const review = toGoogleReview(withProfile, PLACE, "en", NOW);
+        expect(review.reviewId).toBe(EXPECTED[2].reviewId);
+        // An edit keeps the ID, so change tracking sees it as one review
+        expect(toGoogleReview({ ...withProfile, stars: 2, text: "Went downhill" }, PLACE, "en", NOW).reviewId).toBe(review.reviewId);
+    });
+});
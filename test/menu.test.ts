@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import { buildMenuReport, compileMenu, matchMenuItems, menuTokens, singularize } from "../src/menu.js";
+import type { GoogleReview, PlaceDetails } from "../src/types.js";
+
+const MENU = compileMenu([
+    "Key Lime Pie",
+    "Cookie",
+    "Brownie",
+    "Smoothie",
+    "French Fries",
+    "Taco",
+    "Brisket",
+    "Cheesecake",
+    "Mac and Cheese",
+    { name: "Tomahawk Ribeye", aliases: ["tomahawk", "bone-in ribeye"] },
+    "Pasta",
+    "Steak",
+    "Bread",
+    "Burger",
+    "Dessert Platter",
+]);
+
+const match = (...texts: (string | null)[]) => matchMenuItems(MENU, texts);
+
+describe("menuTokens", () => {
+    it("lowercases, strips accents and filler words and singularizes", () => {
+        expect(menuTokens("The Crème Brûlée & two TACOS")).toEqual(["creme", "brulee", "two", "taco"]);
+    });
+
+    it.each([
+        ["fries", "fry"],
+        ["tomatoes", "tomato"],
+        ["dishes", "dish"],
+        ["ribs", "rib"],
+        ["glass", "glass"],
+        ["hummus", "hummus"],
+    ])("singularizes %s as %s", (word, singular) => {
+        expect(singularize(word)).toBe(singular);
+    });
+});
+
+describe("matchMenuItems", () => {
+    it.each([
+        ["the key lime pies were great", ["Key Lime Pie"]],
+        ["cookies were stale", ["Cookie"]],
+        ["two brownies and a cookie", ["Cookie", "Brownie"]],
+        ["smoothies all round", ["Smoothie"]],
+        ["the french fry basket", ["French Fries"]],
+        ["three tacos", ["Taco"]],
+        ["the briskett was tender", ["Brisket"]],
+        ["best cheese cake in town", ["Cheesecake"]],
+        ["their mac & cheese", ["Mac and Cheese"]],
+        ["shared a bone in ribeye", ["Tomahawk Ribeye"]],
+        ["the tomahawk", ["Tomahawk Ribeye"]],
+        ["a big dessert plater", ["Dessert Platter"]],
+    ])("finds the dishes in %j", (text, dishes) => {
+        expect(match(text)).toEqual(dishes);
+    });
+
+    it("searches the translation as well as the original", () => {
+        expect(match("El pastel de queso era perfecto", "The cheesecake was perfect")).toEqual(["Cheesecake"]);
+    });
+
+    it.each([
+        "we have been here in the past",
+        "a steal for the price",
+        "took a break between courses",
+        "the burner was loud",
+        "the decor was lovely",
+        "",
+    ])("finds nothing in %j", (text) => {
+        expect(match(text)).toEqual([]);
+    });
+
+    it("does not take a common word for a typo", () => {
+        expect(matchMenuItems(compileMenu(["Dessert"]), ["a desert on a monday night"])).toEqual([]);
+        expect(matchMenuItems(compileMenu(["Dessert"]), ["the desserts"])).toEqual(["Dessert"]);
+    });
+
+    it("finds nothing without text", () => {
+        expect(match(null, null)).toEqual([]);
+    });
+});
+
+describe("compileMenu", () => {
+    it("drops items without a usable name", () => {
+        expect(compileMenu(["", { name: "  " }, "of", "Pie"]).map((item) => item.name)).toEqual(["Pie"]);
+    });
+});
+
+describe("buildMenuReport", () => {
+    it("counts mentions and averages stars per dish, most mentioned first", () => {
+        const menu = compileMenu(["Cookie", "Brownie", "Taco"]);
+        const place = { placeId: "ChIJ1", name: "Joe's Stone Crab", url: "https://www.google.com/maps/place/x" } as PlaceDetails;
+        const reviews = [
+            { stars: 5, mentionedItems: ["Brownie"] },
+            { stars: 2, mentionedItems: ["Brownie", "Cookie"] },
+            { stars: 4, mentionedItems: [] },
+        ] as unknown as GoogleReview[];
+
+        const report = buildMenuReport(menu, place, reviews);
+        expect(report).toMatchObject({ placeId: "ChIJ1", reviewsScanned: 3, reviewsWithMentions: 2 });
+        expect(report.items).toEqual([
+            { name: "Brownie", mentions: 2, averageStars: 3.5 },
+            { name: "Cookie", mentions: 1, averageStars: 2 },
+            { name: "Taco", mentions: 0, averageStars: null },
+        ]);
+    });
+});
@@ -0,0 +1,93 @@
+import type { Browser, Page } from "playwright";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { labelsFor } from "../src/locales.js";
+import { openReviewsTab, sortReviews } from "../src/navigation.js";
+import { DEFAULT_SELECTORS } from "../src/selectors.js";
+import { hasChromium, launchChromium, loadFixture } from "./browser.js";
+
+const EN = labelsFor("en");
+
+describe.skipIf(!hasChromium)("place panel navigation", () => {
+    let browser: Browser;
+    let page: Page;
+
+    beforeAll(async () => {
+        browser = await launchChromium();
+    });
+    afterAll(async () => {
+        await browser?.close();
+    });
+    beforeEach(async () => {
+        page = await browser.newPage();
+        await loadFixture(page, "reviews-panel.html");
+    });
+    afterEach(async () => {
+        await page.close();
+    });
+
+    const selectedTab = () => page.getAttribute('button[role="tab"][aria-selected="true"]', "data-tab-index");
+
+    describe("openReviewsTab", () => {
+        it("clicks the tab labelled Reviews", async () => {
+            expect(await openReviewsTab(page, EN)).toBe(true);
+            expect(await selectedTab()).toBe("1");
+        });
+
+        it("finds the tab by its text when it has no aria-label", async () => {
+            // Spanish UI, as rendered when the tabs carry no labels
+            await page.evaluate(() => {
+                const texts = ["Descripción general", "Reseñas", "Información"];
+                document.querySelectorAll('button[role="tab"]').forEach((tab, i) => {
+                    tab.removeAttribute("aria-label");
+                    tab.textContent = texts[i];
+                });
+            });
+            expect(await openReviewsTab(page, labelsFor("es"))).toBe(true);
+            expect(await selectedTab()).toBe("1");
+        });
+
+        it("falls back to the second tab when no label matches", async () => {
+            expect(await openReviewsTab(page, { ...EN, reviewsTab: ["Bewertungen"] })).toBe(true);
+            expect(await selectedTab()).toBe("1");
+        });
+
+        it("reports a panel without tabs", async () => {
+            await page.evaluate(() => document.querySelector('[role="tablist"]')?.remove());
+            expect(await openReviewsTab(page, EN)).toBe(false);
+        });
+    });
+
+    describe("sortReviews", () => {
+        const checkedOrder = () => page.textContent('[role="menuitemradio"][aria-checked="true"]');
+
+        it("selects the requested order and verifies it", async () => {
+            const onMenuOpened = vi.fn();
+            const result = await sortReviews(page, DEFAULT_SELECTORS, EN, "newest", onMenuOpened);
+
+            expect(result).toEqual({ buttonSelector: 'button[data-value="Sort"]', activeSort: "newest" });
+            expect(onMenuOpened).toHaveBeenCalledTimes(1);
+            expect(await checkedOrder()).toBe("Newest");
+            // The menu is closed again after reading the active order
+            expect(await page.isVisible('[role="menu"]')).toBe(false);
+        });
+
+        it("picks the option by position when its label is unknown", async () => {
+            const labels = { ...EN, sortOptions: { ...EN.sortOptions, lowestRating: ["Niedrigste"] } };
+            const result = await sortReviews(page, DEFAULT_SELECTORS, labels, "lowestRating");
+            expect(await checkedOrder()).toBe("Lowest rating");
+            // Without a label to match, the checked item can't be read back
+            expect(result.activeSort).toBeNull();
+        });
+
+        it("reports the order actually active when the click does not take", async () => {
+            await page.evaluate(() => document.querySelectorAll('[role="menuitemradio"]')[1].setAttribute("data-ignore-clicks", ""));
+            const result = await sortReviews(page, DEFAULT_SELECTORS, EN, "newest");
+            expect(result.activeSort).toBe("mostRelevant");
+        });
+
+        it("returns nulls when there is no sort button", async () => {
+            await page.evaluate(() => document.querySelector('button[data-value="Sort"]')?.remove());
+            expect(await sortReviews(page, DEFAULT_SELECTORS, EN, "newest")).toEqual({ buttonSelector: null, activeSort: null });
+        });
+    });
+});
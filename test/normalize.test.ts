@@ -0,0 +1,97 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { namesMatch, normalizePlaceInput, parsePlaceInputString, resolveShortLink } from "../src/normalize.js";
+
+const PLACE_ID = "ChIJsfDAovW02YgRPCobDQweTG8";
+
+describe("parsePlaceInputString", () => {
+    it.each([
+        [PLACE_ID, { placeId: PLACE_ID }],
+        [` ${PLACE_ID} `, { placeId: PLACE_ID }],
+        ["8087345497357339196", { cid: "8087345497357339196" }],
+        ["https://maps.app.goo.gl/abc123", { url: "https://maps.app.goo.gl/abc123" }],
+        ["Joe's Stone Crab", { url: "Joe's Stone Crab" }],
+    ])("reads %j", (value, input) => {
+        expect(parsePlaceInputString(value)).toEqual(input);
+    });
+});
+
+describe("normalizePlaceInput", () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it.each([
+        [{ placeId: PLACE_ID }, "place", `https://www.google.com/maps/place/?q=place_id:${PLACE_ID}`],
+        [{ cid: "8087345497357339196" }, "place", "https://www.google.com/maps?cid=8087345497357339196"],
+        [
+            { url: `https://www.google.com/maps/search/?api=1&query=Joe%27s&query_place_id=${PLACE_ID}` },
+            "place",
+            `https://www.google.com/maps/place/?q=place_id:${PLACE_ID}`,
+        ],
+        [{ url: "https://www.google.com/maps/search/pizza+miami" }, "search", "https://www.google.com/maps/search/pizza+miami"],
+        [{ name: "Joe's Stone Crab", address: "11 Washington Ave, Miami Beach" }, "lookup", "https://www.google.com/maps/search/Joe's+Stone+Crab+11+Washington+Ave%2C+Miami+Beach"],
+    ])("resolves %j", async (input, kind, url) => {
+        expect(await normalizePlaceInput(input)).toMatchObject({ kind, url });
+    });
+
+    it("keeps the name to check the place against", async () => {
+        expect(await normalizePlaceInput({ placeId: PLACE_ID, name: " Joe's Stone Crab " })).toEqual({
+            kind: "place",
+            url: `https://www.google.com/maps/place/?q=place_id:${PLACE_ID}`,
+            expectedName: "Joe's Stone Crab",
+            source: `place_id:${PLACE_ID}`,
+        });
+    });
+
+    it("turns a search URL with a name into a lookup", async () => {
+        const place = await normalizePlaceInput({ url: "https://www.google.com/maps/search/joes+miami", name: "Joe's Stone Crab" });
+        expect(place.kind).toBe("lookup");
+    });
+
+    it("follows a short link's redirects", async () => {
+        const target = "https://www.google.com/maps/place/Joe's+Stone+Crab/data=!4m2!3m1!1s0x88d9b4f5a2c0f0b1:0x6f4c1e0d1b2a3c4d";
+        vi.stubGlobal("fetch", vi.fn(async () => new Response(null, { status: 302, headers: { location: target } })));
+        expect(await normalizePlaceInput({ url: "https://maps.app.goo.gl/abc123" })).toMatchObject({ kind: "place", url: target });
+    });
+
+    it("reports a short link that doesn't answer in time as unresolved", async () => {
+        // Only settles when the request is aborted
+        vi.stubGlobal("fetch", vi.fn((_url: string, init: RequestInit) => new Promise((_, reject) => {
+            init.signal!.addEventListener("abort", () => reject(init.signal!.reason));
+        })));
+        await expect(resolveShortLink("https://maps.app.goo.gl/abc123", 50)).rejects.toThrow("Short link https://maps.app.goo.gl/abc123 did not answer within 0.05 s");
+    });
+
+    it.each([
+        [{ placeId: "ChIJ" }, /is not a Google place ID/],
+        [{ cid: "12ab" }, /is not a CID/],
+        [{ url: "Joe's Stone Crab" }, /is not a URL, place ID or CID/],
+        [{ address: "Miami Beach" }, /needs a url, placeId, cid or name/],
+    ])("rejects %j", async (input, message) => {
+        await expect(normalizePlaceInput(input)).rejects.toThrow(message);
+    });
+});
+
+describe("namesMatch", () => {
+    it.each([
+        ["Fleming's", "Fleming's Prime Steakhouse & Wine Bar"],
+        ["Flemings Steakhouse", "Fleming’s Prime Steakhouse & Wine Bar"],
+        ["Joe's Stone Crab", "Joe's Stone Crab"],
+        ["Capital Grille", "The Capital Grille"],
+        ["Cafe Tortoni", "Café Tortoni"],
+        ["Versailles Restaurant", "Versailles Restaurants"],
+    ])("accepts %j for the title %j", (expected, actual) => {
+        expect(namesMatch(expected, actual)).toBe(true);
+    });
+
+    it.each([
+        // A word from the middle of a longer title
+        ["Prime", "Fleming's Prime Steakhouse & Wine Bar"],
+        // A title that is only part of the expected name
+        ["Joe's Stone Crab", "Joe's"],
+        ["Joe's Stone Crab", "Joe's Pizza"],
+        ["Joe's Stone Crab", ""],
+    ])("rejects %j for the title %j", (expected, actual) => {
+        expect(namesMatch(expected, actual)).toBe(false);
+    });
+});
@@ -0,0 +1,104 @@
+import { existsSync } from "node:fs";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { asyncBufferFromFile, parquetReadObjects } from "hyparquet";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { formatFromPath, openRecordWriter, type OutputFormat } from "../src/output.js";
+
+const RECORDS = [
+    {
+        reviewId: "a",
+        stars: 5,
+        text: 'Said "wow", then left\nhappy',
+        isLocalGuide: true,
+        reviewImageUrls: ["https://lh5.googleusercontent.com/p/1", "https://lh5.googleusercontent.com/p/2"],
+        responseFromOwnerText: null,
+    },
+    {
+        reviewId: "b",
+        stars: 3,
+        text: "Fine",
+        isLocalGuide: false,
+        reviewImageUrls: [],
+        responseFromOwnerText: "Thanks",
+    },
+];
+
+describe("openRecordWriter", () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), "tastly-output-"));
+    });
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    /** Write `batches` through a writer for `format` and return the file path. */
+    const writeAll = async (format: OutputFormat, batches: object[][]) => {
+        const path = join(dir, `records.${format}`);
+        const writer = await openRecordWriter(path, format);
+        for (const batch of batches) await writer.write(batch);
+        await writer.close();
+        return path;
+    };
+
+    it("writes one JSON object per line as NDJSON", async () => {
+        const path = await writeAll("ndjson", [[RECORDS[0]], [RECORDS[1]]]);
+        const lines = (await readFile(path, "utf8")).trimEnd().split("\n");
+        expect(lines.map((line) => JSON.parse(line))).toEqual(RECORDS);
+    });
+
+    it("writes CSV with a header from the first record and quoted cells", async () => {
+        const path = await writeAll("csv", [[RECORDS[0]], [RECORDS[1]]]);
+        expect(await readFile(path, "utf8")).toBe([
+            "reviewId,stars,text,isLocalGuide,reviewImageUrls,responseFromOwnerText",
+            'a,5,"Said ""wow"", then left\nhappy",true,"[""https://lh5.googleusercontent.com/p/1"",""https://lh5.googleusercontent.com/p/2""]",',
+            "b,3,Fine,false,[],Thanks",
+            "",
+        ].join("\n"));
+    });
+
+    it("writes a JSON array across batches", async () => {
+        const path = await writeAll("json", [[RECORDS[0]], [], [RECORDS[1]]]);
+        expect(JSON.parse(await readFile(path, "utf8"))).toEqual(RECORDS);
+    });
+
+    it("writes an empty JSON array when there are no records", async () => {
+        const path = await writeAll("json", []);
+        expect(JSON.parse(await readFile(path, "utf8"))).toEqual([]);
+    });
+
+    it("writes Parquet that reads back with typed, nullable columns", async () => {
+        // More rows than one row group holds
+        const rows = Array.from({ length: 1500 }, (_, i) => ({ ...RECORDS[i % 2], reviewId: `r${i}` }));
+        const path = await writeAll("parquet", [rows.slice(0, 700), rows.slice(700)]);
+
+        const read = await parquetReadObjects({ file: await asyncBufferFromFile(path) });
+        expect(read).toHaveLength(1500);
+        expect(read.slice(0, 2)).toEqual([
+            { ...RECORDS[0], reviewId: "r0", reviewImageUrls: JSON.stringify(RECORDS[0].reviewImageUrls) },
+            { ...RECORDS[1], reviewId: "r1", reviewImageUrls: "[]" },
+        ]);
+        expect(read[1499].reviewId).toBe("r1499");
+    });
+
+    it("leaves no Parquet file when there are no records", async () => {
+        const path = await writeAll("parquet", []);
+        expect(existsSync(path)).toBe(false);
+    });
+});
+
+describe("formatFromPath", () => {
+    it.each([
+        ["reviews.jsonl", "ndjson"],
+        ["reviews.NDJSON", "ndjson"],
+        ["out/reviews.csv", "csv"],
+        ["reviews.json", "json"],
+        ["reviews.parquet", "parquet"],
+        ["reviews.txt", null],
+    ])("%s → %s", (path, format) => {
+        expect(formatFromPath(path)).toBe(format);
+    });
+});
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { parseRatingDistribution } from "../src/place.js";
+
+describe("parseRatingDistribution", () => {
+    it("reads the count for each star from the row labels", () => {
+        expect(parseRatingDistribution([
+            "5 stars, 1,234 reviews",
+            "4 stars, 310 reviews",
+            "3 stars, 82 reviews",
+            "2 stars, 25 reviews",
+            "1 star, 9 reviews",
+        ])).toEqual({ "1": 9, "2": 25, "3": 82, "4": 310, "5": 1234 });
+    });
+
+    it.each([
+        ["es", "5 estrellas, 1.234 reseñas"],
+        ["fr", "5 étoiles, 1 234 avis"],
+        ["de", "5 Sterne, 1.234 Rezensionen"],
+        ["pt", "5 estrelas, 1 234 avaliações"],
+    ])("reads thousands separators in %s", (_, label) => {
+        expect(parseRatingDistribution([label])?.["5"]).toBe(1234);
+    });
+
+    it("counts missing rows as zero", () => {
+        expect(parseRatingDistribution(["5 stars, 12 reviews"])).toEqual({ "1": 0, "2": 0, "3": 0, "4": 0, "5": 12 });
+    });
+
+    it("returns null when no row can be read", () => {
+        expect(parseRatingDistribution([])).toBeNull();
+        expect(parseRatingDistribution(["", "5 stars", "6 stars, 10 reviews"])).toBeNull();
+    });
+});
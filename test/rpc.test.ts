@@ -0,0 +1,170 @@
+/**
+ * The fixtures are listugcposts response bodies with the XSSI prefix and
+ * the positional layout PATHS in src/rpc.ts reads: page 1 holds a full
+ * review, a translated one and a rating-only one; page 2 an entry without
+ * timestamps and one without a rating. When Google changes the layout,
+ * save a body from the browser's network tab next to them and add a case.
+ */
+
+import { readFile } from "node:fs/promises";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { isReviewRpcUrl, parseReviewRpcBody, stripXssiPrefix, type ReviewPlaceRef } from "../src/rpc.js";
+import { OUTPUT_SCHEMA_VERSION } from "../src/schema.js";
+import type { GoogleReview } from "../src/types.js";
+
+const NOW = new Date("2025-06-15T12:00:00.000Z");
+const FID = "0x88d9b4f5a2c0e2b1:0x6f4c1e0c0d1b2a3c";
+
+const PLACE: ReviewPlaceRef = {
+    placeId: "ChIJsfDAovW02YgRPCobDQweTG8",
+    placeName: "Joe's Stone Crab",
+    placeUrl: `https://www.google.com/maps/place/Joe's+Stone+Crab/data=!4m2!3m1!1s${FID}`,
+};
+
+const fixture = (name: string) => readFile(new URL(`./fixtures/${name}`, import.meta.url), "utf8");
+
+const permalink = (reviewId: string) =>
+    `https://www.google.com/maps/reviews/data=!4m5!14m4!1m3!1m2!1s${reviewId}!2s${FID}`;
+
+/** Fields every review of PLACE shares, with the defaults of an empty entry. */
+const base = {
+    schemaVersion: OUTPUT_SCHEMA_VERSION,
+    reviewIdSource: "native",
+    placeId: PLACE.placeId,
+    placeName: PLACE.placeName,
+    placeUrl: PLACE.placeUrl,
+    textTranslated: null,
+    responseFromOwnerText: null,
+    responseFromOwnerDate: null,
+    ownerResponseLatencyDays: null,
+    likesCount: 0,
+    reviewImageUrls: [],
+    reviewDetailedRating: null,
+    reviewContext: null,
+    reviewerNumberOfPhotos: null,
+    isLocalGuide: false,
+    reviewOrigin: "Google",
+    topics: [],
+    mentionedItems: [],
+} satisfies Partial<GoogleReview>;
+
+describe("parseReviewRpcBody", () => {
+    beforeEach(() => {
+        vi.useFakeTimers({ now: NOW });
+    });
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("parses a page of reviews exactly", async () => {
+        const reviews = parseReviewRpcBody(await fixture("listugcposts-page1.txt"), PLACE);
+
+        expect(reviews).toEqual([
+            {
+                ...base,
+                reviewId: "ChZDSUhNMG9nS0VJQ0FnSUNudXF1c1pnEAE",
+                name: "Maria Gonzalez",
+                stars: 5,
+                publishedAtDate: "2025-04-15T12:00:00.000Z",
+                text: "The stone crab claws were perfect and the key lime pie was the best we had on this trip.",
+                reviewUrl: permalink("ChZDSUhNMG9nS0VJQ0FnSUNudXF1c1pnEAE"),
+                responseFromOwnerText: "Thank you Maria, we hope to see you again next season!",
+                responseFromOwnerDate: "2025-05-15T12:00:00.000Z",
+                ownerResponseLatencyDays: 30,
+                likesCount: 3,
+                reviewImageUrls: [
+                    "https://lh5.googleusercontent.com/p/AF1QipNcrab1=s0",
+                    "https://lh5.googleusercontent.com/p/AF1QipNpie2=s0",
+                ],
+                reviewDetailedRating: { Food: 5, Service: 4 },
+                reviewContext: { "Meal type": "Dine in", "Price per person": "$50–100" },
+                reviewerId: "112233445566778899001",
+                reviewerUrl: "https://www.google.com/maps/contrib/112233445566778899001",
+                reviewerPhotoUrl: "https://lh3.googleusercontent.com/a-/ALV-UjWmaria=s120-c-rp-mo-ba3-br100",
+                reviewerNumberOfReviews: 120,
+                reviewerNumberOfPhotos: 45,
+                isLocalGuide: true,
+                language: "en",
+            },
+            {
+                ...base,
+                reviewId: "ChdDSUhNMG9nS0VJQ0FnSUNaMXRqRndnRRAB",
+                name: "Lucía Fernández",
+                stars: 4,
+                publishedAtDate: "2025-05-25T12:00:00.000Z",
+                text: "La comida fue muy buena pero la espera fue larga, el pollo frito es imprescindible.",
+                textTranslated: "The food was very good but the wait was long, the fried chicken is a must.",
+                reviewUrl: permalink("ChdDSUhNMG9nS0VJQ0FnSUNaMXRqRndnRRAB"),
+                reviewerId: "223344556677889900112",
+                reviewerUrl: "https://www.google.com/maps/contrib/223344556677889900112",
+                reviewerPhotoUrl: "https://lh3.googleusercontent.com/a/ACg8ocLucia=s120-c-rp-mo-br100",
+                reviewerNumberOfReviews: 8,
+                language: "es",
+            },
+            {
+                ...base,
+                reviewId: "ChdDSUhNMG9nS0VJQ0FnSUNKN2VIX2hnRRAB",
+                name: "Tom B.",
+                stars: 4,
+                publishedAtDate: "2024-06-15T12:00:00.000Z",
+                text: null,
+                reviewUrl: permalink("ChdDSUhNMG9nS0VJQ0FnSUNKN2VIX2hnRRAB"),
+                reviewerId: "998877665544332211000",
+                reviewerUrl: "https://www.google.com/maps/contrib/998877665544332211000",
+                reviewerPhotoUrl: "https://lh3.googleusercontent.com/a/ACg8ocTom=s120-c-rp-mo-br100",
+                reviewerNumberOfReviews: 3,
+                language: "en",
+            },
+        ]);
+    });
+
+    it("falls back to the relative date and skips entries without a rating", async () => {
+        const reviews = parseReviewRpcBody(await fixture("listugcposts-page2.txt"), PLACE);
+
+        expect(reviews).toHaveLength(1);
+        expect(reviews[0]).toMatchObject({
+            reviewId: "ChZDSUhNMG9nS0VJQ0FnSURndTRyZ0l3EAE",
+            stars: 3,
+            publishedAtDate: "2025-05-25T12:00:00.000Z",
+            likesCount: 1,
+            // Thousands separators of either kind
+            reviewerNumberOfReviews: 1204,
+            reviewerNumberOfPhotos: 3518,
+            isLocalGuide: true,
+        });
+    });
+
+    it("reads relative dates in the page's language", async () => {
+        const body = (await fixture("listugcposts-page2.txt")).replace('"3 weeks ago"', '"hace 3 semanas"');
+        expect(parseReviewRpcBody(body, PLACE, "es")[0].publishedAtDate).toBe("2025-05-25T12:00:00.000Z");
+    });
+
+    it("finds the review list when it moves deeper into the payload", async () => {
+        const payload = JSON.parse(stripXssiPrefix(await fixture("listugcposts-page1.txt")));
+        const moved = `)]}'\n${JSON.stringify([[null, null, null, payload[2]]])}`;
+        expect(parseReviewRpcBody(moved, PLACE).map((r) => r.reviewId)).toEqual([
+            "ChZDSUhNMG9nS0VJQ0FnSUNudXF1c1pnEAE",
+            "ChdDSUhNMG9nS0VJQ0FnSUNaMXRqRndnRRAB",
+            "ChdDSUhNMG9nS0VJQ0FnSUNKN2VIX2hnRRAB",
+        ]);
+    });
+
+    it("returns no reviews for a payload without a review list", () => {
+        expect(parseReviewRpcBody(`)]}'\n[null,null,[]]`, PLACE)).toEqual([]);
+    });
+
+    it("throws on a body that is not JSON", () => {
+        expect(() => parseReviewRpcBody("<html>Error 502</html>", PLACE)).toThrow(SyntaxError);
+    });
+});
+
+describe("isReviewRpcUrl", () => {
+    it.each([
+        ["https://www.google.com/maps/rpc/listugcposts?authuser=0&hl=en&pb=!1m6!1s0x0", true],
+        ["https://www.google.com/maps/preview/review/listentitiesreviews?authuser=0&pb=!1m2", true],
+        ["https://www.google.com/maps/preview/place?authuser=0&pb=!1m2", false],
+        ["https://www.google.com/maps/vt?pb=!1m5", false],
+    ])("%s → %s", (url, expected) => {
+        expect(isReviewRpcUrl(url)).toBe(expected);
+    });
+});
@@ -0,0 +1,40 @@
+import { Configuration } from "crawlee";
+import { describe, expect, it } from "vitest";
+import { runScraper, scrapePlaceReviews, validateInput } from "../src/scraper.js";
+
+describe("scrapePlaceReviews", () => {
+    it("throws with the place's summary when it could not be scraped", async () => {
+        const error = await scrapePlaceReviews("not a maps link").catch((err: Error) => err);
+
+        expect(error).toBeInstanceOf(Error);
+        expect((error as Error).message).toMatch(/^Could not scrape not a maps link \(place-not-found\)/);
+        expect((error as Error).cause).toMatchObject({ startUrl: "not a maps link", status: "place-not-found", reviewsCollected: 0 });
+    });
+});
+
+describe("runScraper", () => {
+    it("does not crawl once its signal is aborted", async () => {
+        const stop = new AbortController();
+        stop.abort();
+        const { summary } = await runScraper({ startUrls: [{ url: "https://www.google.com/maps/place/Joe's+Stone+Crab" }] }, {
+            config: new Configuration({ persistStorage: false }),
+            signal: stop.signal,
+            sink: { pushReviews: async () => {}, pushPlace: async () => {}, pushReviewerReviews: async () => {} },
+        });
+        expect(summary.places).toEqual([]);
+    });
+});
+
+describe("validateInput", () => {
+    it.each([
+        [{}, /No startUrls, places or searchQueries/],
+        [{ searchQueries: ["pizza"], sortBy: "oldest" }, /Unknown sortBy "oldest"/],
+        [{ searchQueries: ["pizza"], starRatings: [0, 5] }, /starRatings must only contain/],
+    ])("rejects %j", (input, message) => {
+        expect(() => validateInput(input as never)).toThrow(message);
+    });
+
+    it("accepts a search query", () => {
+        expect(() => validateInput({ startUrls: [], searchQueries: ["pizza"] })).not.toThrow();
+    });
+});
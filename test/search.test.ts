@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { buildSearchUrl, isSearchUrl, placeKey } from "../src/search.js";
+
+describe("buildSearchUrl", () => {
+    it.each([
+        ["pizza", undefined, "https://www.google.com/maps/search/pizza"],
+        ["pizza", "Miami Beach, FL", "https://www.google.com/maps/search/pizza+Miami+Beach%2C+FL"],
+        ["  Joe's Stone Crab ", "  ", "https://www.google.com/maps/search/Joe's+Stone+Crab"],
+        ["café & bar", undefined, "https://www.google.com/maps/search/caf%C3%A9+%26+bar"],
+    ])("builds the search for %j in %j", (query, location, url) => {
+        expect(buildSearchUrl(query, location)).toBe(url);
+        expect(isSearchUrl(url)).toBe(true);
+    });
+});
+
+describe("placeKey", () => {
+    const fid = "0x88d9b4f5a2c0f0b1:0x6f4c1e0d1b2a3c4d";
+
+    it("keys a place link on its feature ID, whatever else the URL holds", () => {
+        const fromSearch = `https://www.google.com/maps/place/Joe's+Stone+Crab/@25.77,-80.13,17z/data=!3m1!4b1!4m6!3m5!1s${fid}!8m2`;
+        const shared = `https://www.google.com/maps/place/Joes/data=!4m2!3m1!1s${fid.toUpperCase()}?hl=es`;
+        expect(placeKey(fromSearch)).toBe(fid);
+        expect(placeKey(shared)).toBe(fid);
+    });
+
+    it.each([
+        ["https://www.google.com/maps?cid=8087345497357339196&hl=en", "cid:8087345497357339196"],
+        ["https://www.google.com/maps/place/?q=place_id:ChIJsfDAovW02YgRPCobDQweTG8", "place_id:ChIJsfDAovW02YgRPCobDQweTG8"],
+        ["https://www.google.com/maps/place/Joe%27s+Stone+Crab/?hl=en", "www.google.com/maps/place/Joe's+Stone+Crab/"],
+    ])("keys %s as %s", (url, key) => {
+        expect(placeKey(url)).toBe(key);
+    });
+});
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { createSelectorHealth, finalizeSelectorHealth, mergeCardStats, selectorHealthFailure } from "../src/selectors.js";
+
+describe("selectorHealthFailure", () => {
+    it("passes a run with enough coverage", () => {
+        const report = createSelectorHealth(0.8);
+        mergeCardStats(report, { cards: 10, matched: {}, missing: { name: 1, date: 0, text: 6 } });
+        expect(selectorHealthFailure(finalizeSelectorHealth(report))).toBeNull();
+    });
+
+    it("fails on name or date coverage below the threshold, never on text", () => {
+        const report = createSelectorHealth(0.8);
+        mergeCardStats(report, { cards: 10, matched: {}, missing: { name: 0, date: 5, text: 10 } });
+        expect(selectorHealthFailure(finalizeSelectorHealth(report))).toMatch(/^Selector coverage below 80% for: date\./);
+    });
+
+    it("fails when a place lists reviews but none could be read", () => {
+        // No card matched at all, so there is no coverage to fall below
+        const report = finalizeSelectorHealth(createSelectorHealth(0.8));
+        report.unreadPlaces.push("https://www.google.com/maps/place/?q=place_id:ChIJsfDAovW02YgRPCobDQweTG8");
+        expect(report.coverage).toEqual({ name: null, date: null, text: null });
+        expect(selectorHealthFailure(report)).toMatch(/^No review could be read from 1 places that list reviews: https:/);
+    });
+});
@@ -0,0 +1,175 @@
+import { existsSync } from "node:fs";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { createServer, type IncomingHttpHeaders, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { OUTPUT_SCHEMA_VERSION } from "../src/schema.js";
+import { combineSinks, createFileSink, createWebhookSink, type OutputSink } from "../src/sinks.js";
+import type { GoogleReview, PlaceDetails, ReviewerProfileReview } from "../src/types.js";
+
+interface Received {
+    headers: IncomingHttpHeaders;
+    body: { schemaVersion: string; kind: string; batchId: string; records: Array<{ reviewId?: string }> };
+}
+
+/** How the stub answers the n-th request (0-based). */
+type Responder = (n: number) => { status: number; headers?: Record<string, string> };
+
+const reviews = (...ids: string[]) => ids.map((reviewId) => ({ reviewId }) as GoogleReview);
+
+describe("createWebhookSink", () => {
+    let server: Server;
+    let url: string;
+    let received: Received[];
+    let respond: Responder;
+
+    beforeEach(async () => {
+        received = [];
+        respond = () => ({ status: 200 });
+        server = createServer((req, res) => {
+            let data = "";
+            req.on("data", (chunk) => (data += chunk));
+            req.on("end", () => {
+                const { status, headers } = respond(received.length);
+                received.push({ headers: req.headers, body: JSON.parse(data) });
+                res.writeHead(status, headers).end();
+            });
+        });
+        await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+        url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+    });
+    afterEach(async () => {
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    const webhook = (options: { batchSize?: number; maxRetries?: number; maxPendingBatches?: number } = {}) =>
+        createWebhookSink({ url, headers: { Authorization: "Bearer test" }, retryDelayMs: 10, ...options });
+
+    it("posts full batches as they fill and the rest on close", async () => {
+        const sink = webhook({ batchSize: 2 });
+        await sink.pushReviews(reviews("a", "b", "c"));
+        await sink.pushPlace({ placeId: "p1" } as PlaceDetails);
+        await expect.poll(() => received.length).toBe(1);
+
+        await sink.close();
+        expect(received.map((r) => [r.body.kind, r.body.records])).toEqual([
+            ["review", [{ reviewId: "a" }, { reviewId: "b" }]],
+            ["review", [{ reviewId: "c" }]],
+            ["place", [{ placeId: "p1" }]],
+        ]);
+        expect(received[0].body.schemaVersion).toBe(OUTPUT_SCHEMA_VERSION);
+        expect(received[0].headers).toMatchObject({
+            "content-type": "application/json",
+            authorization: "Bearer test",
+            "idempotency-key": received[0].body.batchId,
+        });
+        expect(new Set(received.map((r) => r.body.batchId)).size).toBe(3);
+    });
+
+    it("retries a failed batch after Retry-After under the same Idempotency-Key", async () => {
+        respond = (n) => (n === 0 ? { status: 503, headers: { "Retry-After": "1" } } : { status: 200 });
+        const sink = webhook({ batchSize: 1 });
+
+        const started = Date.now();
+        await sink.pushReviews(reviews("a"));
+        await expect(sink.close()).resolves.toBeUndefined();
+        expect(Date.now() - started).toBeGreaterThanOrEqual(900);
+
+        expect(received).toHaveLength(2);
+        expect(received[1].body).toEqual(received[0].body);
+        expect(received[1].headers["idempotency-key"]).toBe(received[0].headers["idempotency-key"]);
+    });
+
+    it("returns from a push without waiting for delivery", async () => {
+        respond = (n) => (n === 0 ? { status: 503, headers: { "Retry-After": "1" } } : { status: 200 });
+        const sink = webhook({ batchSize: 1 });
+
+        const started = Date.now();
+        await sink.pushReviews(reviews("a"));
+        await sink.pushReviews(reviews("b"));
+        expect(Date.now() - started).toBeLessThan(500);
+
+        await sink.close();
+        expect(received.map((r) => r.body.records[0].reviewId)).toEqual(["a", "a", "b"]);
+    });
+
+    it("makes a push wait once too many batches are queued", async () => {
+        respond = (n) => (n === 0 ? { status: 503, headers: { "Retry-After": "1" } } : { status: 200 });
+        const sink = webhook({ batchSize: 1, maxPendingBatches: 1 });
+
+        const started = Date.now();
+        await sink.pushReviews(reviews("a"));
+        // Two batches queued, one more than allowed: waits for "a" to go through
+        await sink.pushReviews(reviews("b"));
+        expect(Date.now() - started).toBeGreaterThanOrEqual(900);
+        await sink.close();
+    });
+
+    it("skips a rejected batch without retrying it and fails on close", async () => {
+        respond = (n) => ({ status: n === 0 ? 400 : 200 });
+        const sink = webhook({ batchSize: 1 });
+
+        await sink.pushReviews(reviews("a"));
+        await sink.pushReviews(reviews("b"));
+
+        await expect(sink.close()).rejects.toThrow("Webhook did not take 1 of 2 batches, first: Webhook rejected 1 review records: HTTP 400");
+        expect(received.map((r) => r.body.records[0].reviewId)).toEqual(["a", "b"]);
+    });
+
+    it("gives up on a batch once retries run out", async () => {
+        respond = () => ({ status: 500 });
+        const sink = webhook({ batchSize: 1, maxRetries: 2 });
+
+        await sink.pushReviews(reviews("a"));
+        await expect(sink.close()).rejects.toThrow(/after 3 attempts: HTTP 500/);
+        expect(received).toHaveLength(3);
+    });
+
+    it("lets a combined sink's push succeed when the webhook rejects the batch", async () => {
+        respond = () => ({ status: 400 });
+        const pushed: string[] = [];
+        const dataset: OutputSink = {
+            pushReviews: async (batch) => {
+                pushed.push(...batch.map((r) => r.reviewId));
+            },
+            pushPlace: async () => {},
+            pushReviewerReviews: async () => {},
+            close: async () => {},
+        };
+        const sink = combineSinks([dataset, webhook({ batchSize: 1 })]);
+
+        await sink.pushReviews(reviews("a"));
+        expect(pushed).toEqual(["a"]);
+        await expect(sink.close()).rejects.toThrow(/did not take 1 of 1 batches/);
+    });
+});
+
+describe("createFileSink", () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), "tastly-sinks-"));
+    });
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it("only creates files for the record kinds that are enabled", async () => {
+        const sink = await createFileSink({
+            format: "ndjson",
+            reviews: join(dir, "reviews.ndjson"),
+            places: join(dir, "places.ndjson"),
+            reviewerReviews: null,
+            changes: null,
+        });
+        await sink.pushReviews(reviews("a"));
+        await sink.pushReviewerReviews([{ reviewId: "b" } as ReviewerProfileReview]);
+        await sink.close();
+
+        expect(await readFile(join(dir, "reviews.ndjson"), "utf8")).toBe('{"reviewId":"a"}\n');
+        expect(existsSync(join(dir, "places.ndjson"))).toBe(true);
+        expect(existsSync(join(dir, "reviewer-reviews.ndjson"))).toBe(false);
+    });
+});
@@ -0,0 +1,66 @@
+import { Configuration, KeyValueStore } from "crawlee";
+import { beforeEach, describe, expect, it } from "vitest";
+import { isResetRequested, loadPlaceState, placeStateKey, savePlaceState } from "../src/state.js";
+import type { PlaceDetails } from "../src/types.js";
+
+const PLACE = {
+    placeId: "ChIJsfDAovW02YgRPCobDQweTG8",
+    fid: "0x88d9b4f5a2c0f0b1:0x6f4c1e0d1b2a3c4d",
+    cid: "8037419327219301453",
+    name: "Joe's Stone Crab",
+} as PlaceDetails;
+const START_URL = "https://maps.app.goo.gl/abc123";
+
+describe("placeStateKey", () => {
+    it("keys a place on its feature ID", () => {
+        expect(placeStateKey(PLACE, START_URL)).toBe("PLACE-0x88d9b4f5a2c0f0b1-0x6f4c1e0d1b2a3c4d");
+        expect(placeStateKey({ ...PLACE, placeId: null }, "https://example.com/other")).toBe(placeStateKey(PLACE, START_URL));
+    });
+
+    it("falls back to a hash of the start URL", () => {
+        const key = placeStateKey(null, START_URL);
+        expect(key).toMatch(/^PLACE-URL-[0-9a-f]{16}$/);
+        expect(placeStateKey({ ...PLACE, fid: null }, START_URL)).toBe(key);
+    });
+});
+
+describe("isResetRequested", () => {
+    it.each([PLACE.placeId!, PLACE.fid!, PLACE.cid!, START_URL, ` ${PLACE.placeId} `])("resets the place named by %j", (name) => {
+        expect(isResetRequested([name], PLACE, START_URL)).toBe(true);
+    });
+
+    it("leaves other places alone", () => {
+        expect(isResetRequested([], PLACE, START_URL)).toBe(false);
+        expect(isResetRequested(["ChIJother", ""], PLACE, START_URL)).toBe(false);
+        expect(isResetRequested([PLACE.placeId!], null, START_URL)).toBe(false);
+    });
+});
+
+describe("savePlaceState", () => {
+    let store: KeyValueStore;
+
+    beforeEach(async () => {
+        store = await KeyValueStore.open(null, { config: new Configuration({ persistStorage: false }) });
+    });
+
+    it("stores new IDs ahead of the known ones, without duplicates", async () => {
+        const key = placeStateKey(PLACE, START_URL);
+        const first = await savePlaceState(store, key, PLACE, null, ["b", "a"]);
+        await savePlaceState(store, key, null, first, ["c", "b"]);
+
+        expect(await loadPlaceState(store, key)).toMatchObject({
+            placeId: PLACE.placeId,
+            placeName: PLACE.name,
+            reviewIds: ["c", "b", "a"],
+        });
+    });
+
+    it("keeps at most 20000 IDs, dropping the oldest", async () => {
+        const known = Array.from({ length: 20000 }, (_, i) => `old-${i}`);
+        const state = await savePlaceState(store, "PLACE-big", PLACE, { placeId: null, placeName: null, reviewIds: known, updatedAt: "" }, ["new-1", "new-2"]);
+
+        expect(state.reviewIds).toHaveLength(20000);
+        expect(state.reviewIds.slice(0, 3)).toEqual(["new-1", "new-2", "old-0"]);
+        expect(state.reviewIds.at(-1)).toBe("old-19997");
+    });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { buildRunSummary, computeReviewStats, resolvePlaceStatus } from "../src/summary.js";
+import type { GoogleReview, PlaceSummary } from "../src/types.js";
+
+const review = (stars: number, text: string | null, responseFromOwnerText: string | null = null, textTranslated: string | null = null) =>
+    ({ stars, text, textTranslated, responseFromOwnerText }) as GoogleReview;
+
+describe("computeReviewStats", () => {
+    it("counts stars and rates replies and text over the scraped reviews", () => {
+        const stats = computeReviewStats([
+            review(5, "Great claws", "Thank you!"),
+            review(5, null),
+            review(4, null, null, "Very good"),
+            review(1, "Cold fries", "Sorry to hear that"),
+        ]);
+        expect(stats).toEqual({
+            starHistogram: { "1": 1, "2": 0, "3": 0, "4": 1, "5": 2 },
+            averageRating: 3.75,
+            ownerResponseRate: 0.5,
+            withTextShare: 0.75,
+        });
+    });
+
+    it("rounds the rates", () => {
+        const stats = computeReviewStats([review(5, "a"), review(4, null), review(4, null)]);
+        expect(stats.averageRating).toBe(4.33);
+        expect(stats.withTextShare).toBe(0.333);
+    });
+
+    it("leaves the rates empty without reviews", () => {
+        expect(computeReviewStats([])).toEqual({
+            starHistogram: { "1": 0, "2": 0, "3": 0, "4": 0, "5": 0 },
+            averageRating: null,
+            ownerResponseRate: null,
+            withTextShare: null,
+        });
+    });
+});
+
+describe("resolvePlaceStatus", () => {
+    const run = { pageProblem: null, error: null, reviewsCollected: 10, hitDateCutoff: false, hitKnownReview: false };
+
+    it.each([
+        [{}, "ok"],
+        [{ pageProblem: "blocked", error: "Google served a captcha" }, "blocked"],
+        [{ error: "Timed out" }, "failed"],
+        [{ reviewsCollected: 0 }, "no-reviews"],
+        [{ reviewsCollected: 0, hitDateCutoff: true }, "ok"],
+        [{ reviewsCollected: 0, hitKnownReview: true }, "ok"],
+    ] as const)("resolves %j as %s", (overrides, status) => {
+        expect(resolvePlaceStatus({ ...run, ...overrides })).toBe(status);
+    });
+});
+
+describe("buildRunSummary", () => {
+    it("totals reviews and counts places by status", () => {
+        const places = [
+            { status: "ok", reviewsCollected: 12 },
+            { status: "ok", reviewsCollected: 3 },
+            { status: "blocked", reviewsCollected: 0 },
+        ] as PlaceSummary[];
+        expect(buildRunSummary(places).totals).toEqual({ places: 3, reviewsCollected: 15, byStatus: { ok: 2, blocked: 1 } });
+    });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { deriveReviewId, parseRelativeDate } from "../src/utils.js";
+
+const NOW = new Date("2025-06-15T12:00:00.000Z");
+
+describe("parseRelativeDate", () => {
+    it.each([
+        ["a minute ago", "2025-06-15T11:59:00.000Z"],
+        ["5 hours ago", "2025-06-15T07:00:00.000Z"],
+        ["a day ago", "2025-06-14T12:00:00.000Z"],
+        ["3 weeks ago", "2025-05-25T12:00:00.000Z"],
+        ["a month ago", "2025-05-15T12:00:00.000Z"],
+        ["11 months ago", "2024-07-15T12:00:00.000Z"],
+        ["2 years ago", "2023-06-15T12:00:00.000Z"],
+    ])("reads %j in English", (text, expected) => {
+        expect(parseRelativeDate(text, "en", NOW)).toBe(expected);
+    });
+
+    it.each([
+        ["es", "hace una semana", "2025-06-08T12:00:00.000Z"],
+        ["es", "hace 3 meses", "2025-03-15T12:00:00.000Z"],
+        ["pt", "há 2 dias", "2025-06-13T12:00:00.000Z"],
+        ["pt", "um ano atrás", "2024-06-15T12:00:00.000Z"],
+        ["fr", "il y a 4 mois", "2025-02-15T12:00:00.000Z"],
+        ["de", "vor 3 Tagen", "2025-06-12T12:00:00.000Z"],
+        ["de", "vor einem Jahr", "2024-06-15T12:00:00.000Z"],
+        ["it", "2 settimane fa", "2025-06-01T12:00:00.000Z"],
+    ])("reads %s %j", (language, text, expected) => {
+        expect(parseRelativeDate(text, language, NOW)).toBe(expected);
+    });
+
+    it("ignores the \"Edited\" prefix and surrounding text", () => {
+        expect(parseRelativeDate("Edited 2 months ago", "en", NOW)).toBe("2025-04-15T12:00:00.000Z");
+    });
+
+    it("falls back to the other grammars when the date is in another language", () => {
+        expect(parseRelativeDate("hace 2 años", "en", NOW)).toBe("2023-06-15T12:00:00.000Z");
+    });
+
+    it("resolves against the injected clock, not the current time", () => {
+        const later = new Date("2030-01-31T00:00:00.000Z");
+        expect(parseRelativeDate("a week ago", "en", later)).toBe("2030-01-24T00:00:00.000Z");
+    });
+
+    it.each(["", "   ", "yesterday-ish", "Visited in March"])("returns null for %j", (text) => {
+        expect(parseRelativeDate(text, "en", NOW)).toBeNull();
+    });
+});
+
+describe("deriveReviewId", () => {
+    const place = "ChIJsfDAovW02YgRPCobDQweTG8";
+
+    it("keys on the place and reviewer ID when the reviewer is known", () => {
+        const id = deriveReviewId({ place, reviewerId: "998877665544332211000", reviewer: "Tom B.", stars: 4, text: null });
+        // An edited review keeps its ID
+        expect(deriveReviewId({ place, reviewerId: "998877665544332211000", reviewer: "Tom B.", stars: 2, text: "Went downhill" })).toBe(id);
+        expect(deriveReviewId({ place: "ChIJother", reviewerId: "998877665544332211000", reviewer: "Tom B.", stars: 4, text: null })).not.toBe(id);
+        expect(id).toMatch(/^derived-[0-9a-f]{24}$/);
+    });
+
+    it("falls back to the reviewer name, stars and text without a reviewer ID", () => {
+        const parts = { place, reviewerId: null, reviewer: "Tom B.", stars: 4, text: "Fine." };
+        const id = deriveReviewId(parts);
+        expect(deriveReviewId({ ...parts, reviewer: " Tom B. ", text: " Fine. " })).toBe(id);
+        expect(deriveReviewId({ ...parts, stars: 5 })).not.toBe(id);
+        expect(deriveReviewId({ ...parts, text: "Fine!" })).not.toBe(id);
+    });
+});
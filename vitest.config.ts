@@ -0,0 +1,12 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+    test: {
+        include: ["test/**/*.test.ts"],
+        // Relative dates are resolved with local-time calendar arithmetic
+        env: { TZ: "UTC" },
+        // Page-level tests start a browser
+        testTimeout: 30000,
+        hookTimeout: 60000,
+    },
+});